@@ -0,0 +1,84 @@
+import { CONTEXTUAL_FILLERS, FILLER_WORDS } from "../config.js";
+import { FillerWord, WhisperSegment, WhisperWord } from "../types.js";
+
+function normalize(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+}
+
+// Multi-word entries first so "you know" is matched before single words
+const FILLER_PHRASES = FILLER_WORDS.map((phrase) => phrase.toLowerCase().split(/\s+/)).sort(
+  (a, b) => b.length - a.length
+);
+
+function isSentenceStart(
+  words: WhisperWord[],
+  index: number,
+  segmentStarts: Set<number>
+): boolean {
+  if (index === 0) return true;
+  if (/[.!?…]$/.test(words[index - 1].word.trim())) return true;
+  return segmentStarts.has(Math.round(words[index].start * 1000));
+}
+
+function isSetOffByCommas(words: WhisperWord[], index: number, wordCount: number): boolean {
+  const last = words[index + wordCount - 1].word.trim();
+  const previous = index > 0 ? words[index - 1].word.trim() : "";
+  return /,$/.test(last) || /,$/.test(previous);
+}
+
+// Detect FILLER_WORDS phrases, applying sentence-start and standalone rules.
+// Indices already flagged (e.g. by FILLER_PATTERNS) are skipped.
+export function detectContextualFillers(
+  words: WhisperWord[],
+  segments: WhisperSegment[],
+  flaggedIndices: Set<number>
+): FillerWord[] {
+  const segmentStarts = new Set(segments.map((s) => Math.round(s.start * 1000)));
+  const sentenceStartOnly = new Set(CONTEXTUAL_FILLERS.sentenceStartOnly);
+  const standaloneOnly = new Set(CONTEXTUAL_FILLERS.standaloneOnly);
+  const fillers: FillerWord[] = [];
+
+  let i = 0;
+  while (i < words.length) {
+    const phrase = FILLER_PHRASES.find(
+      (tokens) =>
+        i + tokens.length <= words.length &&
+        tokens.every((token, k) => normalize(words[i + k].word) === token && !flaggedIndices.has(i + k))
+    );
+
+    if (!phrase) {
+      i++;
+      continue;
+    }
+
+    const text = phrase.join(" ");
+    const atSentenceStart = isSentenceStart(words, i, segmentStarts);
+    const matchesContext = sentenceStartOnly.has(text)
+      ? atSentenceStart
+      : standaloneOnly.has(text)
+        ? atSentenceStart || isSetOffByCommas(words, i, phrase.length)
+        : true;
+
+    if (!matchesContext) {
+      i++;
+      continue;
+    }
+
+    const first = words[i];
+    const last = words[i + phrase.length - 1];
+    fillers.push({
+      word: words.slice(i, i + phrase.length).map((w) => w.word).join(" "),
+      startMs: Math.round(first.start * 1000),
+      endMs: Math.round(last.end * 1000),
+      index: i,
+      wordCount: phrase.length,
+      contextual: true,
+      // These are also ordinary words, so only suggest them
+      autoRemove: false,
+    });
+
+    i += phrase.length;
+  }
+
+  return fillers;
+}
@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { WhisperWord } from "../types.js";
+import { detectMouthNoises } from "./mouth-noises.js";
+
+const SAMPLE_RATE = 16000;
+
+// Room tone with a white-noise burst between fromMs and toMs
+function audioWithBurst(durationMs: number, fromMs: number, toMs: number, amplitude: number) {
+  const samples = new Int16Array((SAMPLE_RATE * durationMs) / 1000);
+  let seed = 1;
+  for (let i = 0; i < samples.length; i++) {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    const noise = seed / 1073741824 - 1;
+    const ms = (i * 1000) / SAMPLE_RATE;
+    samples[i] = Math.round(noise * (ms >= fromMs && ms < toMs ? amplitude : 10));
+  }
+  return { sampleRate: SAMPLE_RATE, samples };
+}
+
+const words: WhisperWord[] = [
+  { word: "one", start: 0, end: 0.5 },
+  { word: "two", start: 1, end: 1.5 },
+];
+
+test("detectMouthNoises finds a breath louder than the silence threshold between words", () => {
+  // About -20 dBFS, loud enough to break up silencedetect's -35 dB silence
+  const noises = detectMouthNoises(audioWithBurst(1500, 650, 850, 3000), words);
+  assert.equal(noises.length, 1);
+  assert.equal(noises[0].kind, "breath");
+  assert.equal(noises[0].afterWordIndex, 0);
+  assert.ok(Math.abs(noises[0].startMs - 650) <= 20 && Math.abs(noises[0].endMs - 850) <= 20);
+});
+
+test("detectMouthNoises only scans between words", () => {
+  assert.deepEqual(detectMouthNoises(audioWithBurst(1500, 1100, 1300, 3000), words), []);
+});
@@ -0,0 +1,182 @@
+import { MOUTH_NOISE_SETTINGS } from "../config.js";
+import { WavAudio } from "../lib/audio.js";
+import { MouthNoise, WhisperWord } from "../types.js";
+
+const FRAME_MS = 20;
+const HOP_MS = 10;
+const FFT_SIZE = 512;
+
+interface FrameFeatures {
+  startMs: number;
+  rmsDb: number;
+  peakDb: number;
+  flatness: number; // 0 = tonal (voiced speech), 1 = white noise (breath)
+}
+
+function toDb(value: number): number {
+  return 20 * Math.log10(Math.max(value, 1e-9));
+}
+
+// In-place radix-2 FFT, returns the magnitude spectrum (first half)
+function magnitudeSpectrum(frame: Float64Array): Float64Array {
+  const n = frame.length;
+  const re = Float64Array.from(frame);
+  const im = new Float64Array(n);
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+
+  const magnitudes = new Float64Array(n / 2);
+  for (let i = 0; i < n / 2; i++) {
+    magnitudes[i] = Math.hypot(re[i], im[i]);
+  }
+  return magnitudes;
+}
+
+// Geometric mean / arithmetic mean of the power spectrum
+function spectralFlatness(magnitudes: Float64Array): number {
+  let logSum = 0;
+  let sum = 0;
+  // Skip DC
+  for (let i = 1; i < magnitudes.length; i++) {
+    const power = magnitudes[i] * magnitudes[i] + 1e-12;
+    logSum += Math.log(power);
+    sum += power;
+  }
+  const count = magnitudes.length - 1;
+  return Math.exp(logSum / count) / (sum / count);
+}
+
+function analyzeFrames(audio: WavAudio, startMs: number, endMs: number): FrameFeatures[] {
+  const frameSize = Math.round((audio.sampleRate * FRAME_MS) / 1000);
+  const frames: FrameFeatures[] = [];
+  const window = new Float64Array(FFT_SIZE);
+
+  for (let t = startMs; t + FRAME_MS <= endMs; t += HOP_MS) {
+    const offset = Math.round((audio.sampleRate * t) / 1000);
+    if (offset + frameSize > audio.samples.length) break;
+
+    let sumSquares = 0;
+    let peak = 0;
+    window.fill(0);
+    for (let i = 0; i < frameSize; i++) {
+      const sample = audio.samples[offset + i] / 32768;
+      sumSquares += sample * sample;
+      peak = Math.max(peak, Math.abs(sample));
+      if (i < FFT_SIZE) {
+        // Hann window
+        window[i] = sample * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frameSize - 1)));
+      }
+    }
+
+    frames.push({
+      startMs: t,
+      rmsDb: toDb(Math.sqrt(sumSquares / frameSize)),
+      peakDb: toDb(peak),
+      flatness: spectralFlatness(magnitudeSpectrum(window)),
+    });
+  }
+
+  return frames;
+}
+
+function actionFor(kind: MouthNoise["kind"]): MouthNoise["action"] {
+  return kind === "breath" ? MOUTH_NOISE_SETTINGS.breathAction : MOUTH_NOISE_SETTINGS.clickAction;
+}
+
+// Find breaths and clicks in each gap between words: runs of frames well above
+// the gap's noise floor, classified by duration, spectral flatness and crest factor.
+// Whole gaps are scanned rather than detected pauses, since a loud breath ends
+// the measured silence and would otherwise fall outside every pause.
+export function detectMouthNoises(audio: WavAudio, words: WhisperWord[]): MouthNoise[] {
+  const {
+    breathMinMs,
+    breathMaxMs,
+    breathMinFlatness,
+    clickMaxMs,
+    clickMinCrestDb,
+    eventAboveFloorDb,
+  } = MOUTH_NOISE_SETTINGS;
+  const noises: MouthNoise[] = [];
+
+  for (let i = 0; i < words.length - 1; i++) {
+    const frames = analyzeFrames(audio, Math.round(words[i].end * 1000), Math.round(words[i + 1].start * 1000));
+    if (frames.length < 3) continue;
+
+    // Noise floor: 10th percentile frame level
+    const sortedLevels = frames.map((f) => f.rmsDb).sort((a, b) => a - b);
+    const floorDb = sortedLevels[Math.floor(sortedLevels.length * 0.1)];
+
+    // Group consecutive loud frames into events
+    const events: FrameFeatures[][] = [];
+    let current: FrameFeatures[] = [];
+    for (const frame of frames) {
+      if (frame.rmsDb >= floorDb + eventAboveFloorDb) {
+        current.push(frame);
+      } else if (current.length > 0) {
+        events.push(current);
+        current = [];
+      }
+    }
+    if (current.length > 0) {
+      events.push(current);
+    }
+
+    for (const event of events) {
+      const startMs = event[0].startMs;
+      const endMs = event[event.length - 1].startMs + FRAME_MS;
+      const durationMs = endMs - startMs;
+      const peakDb = Math.max(...event.map((f) => f.peakDb));
+      const meanRmsDb = event.reduce((sum, f) => sum + f.rmsDb, 0) / event.length;
+      const meanFlatness = event.reduce((sum, f) => sum + f.flatness, 0) / event.length;
+
+      let kind: MouthNoise["kind"] | null = null;
+      if (durationMs <= clickMaxMs && peakDb - meanRmsDb >= clickMinCrestDb) {
+        kind = "click";
+      } else if (
+        durationMs >= breathMinMs &&
+        durationMs <= breathMaxMs &&
+        meanFlatness >= breathMinFlatness
+      ) {
+        kind = "breath";
+      }
+
+      if (kind) {
+        noises.push({
+          kind,
+          startMs,
+          endMs,
+          peakDb: Math.round(peakDb * 10) / 10,
+          afterWordIndex: i,
+          action: actionFor(kind),
+        });
+      }
+    }
+  }
+
+  return noises;
+}
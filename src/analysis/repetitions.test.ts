@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { WhisperWord } from "../types.js";
+import { detectRepetitions, isStutter } from "./repetitions.js";
+
+function word(text: string, start: number, end: number): WhisperWord {
+  return { word: text, start, end };
+}
+
+test("isStutter: dashed fragment followed by the full word", () => {
+  assert.equal(isStutter(word("pro-", 0, 0.2), word("product", 0.6, 1)), true);
+  assert.equal(isStutter(word("pro—", 0, 0.2), word("Product.", 0.3, 1)), true);
+});
+
+test("isStutter: undashed fragment running straight into the word (OpenAI words)", () => {
+  assert.equal(isStutter(word("pro", 0, 0.2), word("product", 0.25, 0.7)), true);
+  assert.equal(isStutter(word(" pro", 0, 0.2), word(" product", 0.2, 0.7)), true);
+});
+
+test("isStutter: undashed fragment after a pause is not a stutter", () => {
+  assert.equal(isStutter(word("pro", 0, 0.2), word("product", 0.8, 1.2)), false);
+});
+
+test("isStutter: common short words and single letters are not fragments", () => {
+  assert.equal(isStutter(word("in", 0, 0.1), word("inside", 0.1, 0.5)), false);
+  assert.equal(isStutter(word("a", 0, 0.1), word("about", 0.1, 0.5)), false);
+  assert.equal(isStutter(word("to", 0, 0.1), word("today", 0.1, 0.5)), false);
+});
+
+test("isStutter: the next word must be longer and start with the fragment", () => {
+  assert.equal(isStutter(word("pro-", 0, 0.2), word("pro", 0.3, 0.5)), false);
+  assert.equal(isStutter(word("pre-", 0, 0.2), word("product", 0.3, 0.5)), false);
+});
+
+test("detectRepetitions reports an undashed stutter", () => {
+  const words = [word("the", 0, 0.2), word("pro", 0.3, 0.5), word("product", 0.55, 1), word("works", 1.1, 1.5)];
+  const [stutter, ...rest] = detectRepetitions(words);
+  assert.equal(rest.length, 0);
+  assert.equal(stutter.kind, "stutter");
+  assert.equal(stutter.index, 1);
+  assert.equal(stutter.startMs, 300);
+  assert.equal(stutter.endMs, 550);
+  assert.equal(stutter.autoRemove, false);
+});
+
+test("detectRepetitions auto-removes dashed stutters only", () => {
+  const words = [word("pro-", 0, 0.2), word("product", 0.3, 0.8)];
+  assert.equal(detectRepetitions(words)[0].autoRemove, true);
+});
+
+test("detectRepetitions never cuts real words that prefix the next word", () => {
+  const words = "park the car carefully and the man managed to go"
+    .split(" ")
+    .map((w, i) => word(w, i * 0.3, i * 0.3 + 0.25));
+  const repetitions = detectRepetitions(words);
+  assert.deepEqual(repetitions.map((r) => r.text), ["car", "man"]);
+  assert.ok(repetitions.every((r) => !r.autoRemove));
+});
+
+test("detectRepetitions keeps the last of a repeated phrase", () => {
+  const words = ["of", "the", "of", "the", "best"].map((w, i) => word(w, i * 0.3, i * 0.3 + 0.25));
+  const repetitions = detectRepetitions(words);
+  assert.equal(repetitions.length, 1);
+  assert.equal(repetitions[0].kind, "repeat");
+  assert.equal(repetitions[0].wordCount, 2);
+});
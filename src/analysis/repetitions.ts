@@ -0,0 +1,94 @@
+import { REPETITION_SETTINGS } from "../config.js";
+import { Repetition, WhisperWord } from "../types.js";
+import { SKIP_WORDS } from "../lib/stopwords.js";
+
+function normalize(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+}
+
+function isDashed(word: WhisperWord): boolean {
+  return /[-—–]$/.test(word.word.trim());
+}
+
+// "pro-" / "pro—" followed by a word starting with "pro", or an undashed
+// fragment ("pro product") said right before the word
+export function isStutter(word: WhisperWord, nextWord: WhisperWord): boolean {
+  const { stutterMinChars, stutterMaxGapMs } = REPETITION_SETTINGS;
+  const prefix = normalize(word.word);
+  const next = normalize(nextWord.word);
+  if (prefix.length === 0 || prefix.length >= next.length || !next.startsWith(prefix)) return false;
+  if (isDashed(word)) return true;
+
+  const gapMs = (nextWord.start - word.end) * 1000;
+  return prefix.length >= stutterMinChars && !SKIP_WORDS.has(prefix) && gapMs <= stutterMaxGapMs;
+}
+
+function phraseAt(words: WhisperWord[], index: number, length: number): string[] {
+  return words.slice(index, index + length).map((w) => normalize(w.word));
+}
+
+// Detect immediate repetitions and stutters, keeping only the final occurrence
+export function detectRepetitions(words: WhisperWord[]): Repetition[] {
+  const { maxPhraseWords, maxGapMs, allowedRepeats } = REPETITION_SETTINGS;
+  const allowed = new Set(allowedRepeats);
+  const repetitions: Repetition[] = [];
+
+  let i = 0;
+  while (i < words.length - 1) {
+    const word = words[i];
+
+    if (isStutter(word, words[i + 1])) {
+      repetitions.push({
+        text: word.word,
+        repeatedText: words[i + 1].word,
+        startMs: Math.round(word.start * 1000),
+        endMs: Math.round(words[i + 1].start * 1000),
+        index: i,
+        wordCount: 1,
+        kind: "stutter",
+        // Undashed fragments can be real words ("car carefully"), so only suggest them
+        autoRemove: isDashed(word),
+      });
+      i++;
+      continue;
+    }
+
+    // Longest phrase first so "of the of the" isn't reported as two single-word misses
+    let matchedLength = 0;
+    for (let n = Math.min(maxPhraseWords, Math.floor((words.length - i) / 2)); n >= 1; n--) {
+      const first = phraseAt(words, i, n);
+      const second = phraseAt(words, i + n, n);
+      if (first.some((w) => w === "") || first.join(" ") !== second.join(" ")) continue;
+      if (n === 1 && allowed.has(first[0])) continue;
+
+      const gapMs = (words[i + n].start - words[i + n - 1].end) * 1000;
+      if (gapMs > maxGapMs) continue;
+
+      matchedLength = n;
+      break;
+    }
+
+    if (matchedLength === 0) {
+      i++;
+      continue;
+    }
+
+    const removed = words.slice(i, i + matchedLength);
+    const repeated = words.slice(i + matchedLength, i + matchedLength * 2);
+    repetitions.push({
+      text: removed.map((w) => w.word).join(" "),
+      repeatedText: repeated.map((w) => w.word).join(" "),
+      startMs: Math.round(removed[0].start * 1000),
+      endMs: Math.round(repeated[0].start * 1000),
+      index: i,
+      wordCount: matchedLength,
+      kind: "repeat",
+      autoRemove: true,
+    });
+
+    // Continue from the repeat itself so chains ("I I I") keep only the last one
+    i += matchedLength;
+  }
+
+  return repetitions;
+}
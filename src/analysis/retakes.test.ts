@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { WhisperWord } from "../types.js";
+import { detectRetakes, textSimilarity } from "./retakes.js";
+
+// Words 0.3s apart, with an optional pause before given indices
+function words(text: string, pausesBefore: number[] = []): WhisperWord[] {
+  let time = 0;
+  return text.split(" ").map((word, i) => {
+    if (pausesBefore.includes(i)) time += 1;
+    const w = { word, start: time, end: time + 0.25 };
+    time += 0.3;
+    return w;
+  });
+}
+
+test("textSimilarity ignores case and punctuation", () => {
+  assert.equal(textSimilarity(["So,", "today", "we"], ["so", "Today", "we."]), 1);
+});
+
+test("textSimilarity scores near misses and unrelated text", () => {
+  const close = textSimilarity(["the", "best", "way"], ["the", "best", "ways"]);
+  assert.ok(close > 0.9 && close < 1);
+  assert.ok(textSimilarity(["hello", "there", "friend"], ["quantum", "physics", "rocks"]) < 0.5);
+  assert.equal(textSimilarity([], []), 0);
+});
+
+test("detectRetakes finds an abandoned attempt restarted after a pause", () => {
+  const transcript = words("today we will talk today we will talk about retakes", [4]);
+  const [retake, ...rest] = detectRetakes(transcript, []);
+  assert.equal(rest.length, 0);
+  assert.equal(retake.index, 0);
+  assert.equal(retake.wordCount, 4);
+  assert.equal(retake.similarity, 1);
+  assert.equal(retake.autoRemove, true);
+  assert.equal(retake.endMs, Math.round(transcript[4].start * 1000));
+});
+
+test("detectRetakes suggests but doesn't auto-remove a loose match", () => {
+  const transcript = words("we are going to the store we are going to a store", [6]);
+  const [retake] = detectRetakes(transcript, []);
+  assert.equal(retake.wordCount, 6);
+  assert.ok(retake.similarity >= 0.75 && retake.similarity < 0.9);
+  assert.equal(retake.autoRemove, false);
+});
+
+test("detectRetakes ignores unrelated sentences", () => {
+  const transcript = words("this is the first part. and here is something else entirely", [5]);
+  assert.deepEqual(detectRetakes(transcript, []), []);
+});
@@ -0,0 +1,99 @@
+import { RETAKE_SETTINGS } from "../config.js";
+import { Retake, WhisperSegment, WhisperWord } from "../types.js";
+
+function normalize(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 = identical after normalization, 0 = nothing in common
+export function textSimilarity(a: string[], b: string[]): number {
+  const left = a.map(normalize).join(" ");
+  const right = b.map(normalize).join(" ");
+  const maxLength = Math.max(left.length, right.length);
+  if (maxLength === 0) return 0;
+  return 1 - levenshtein(left, right) / maxLength;
+}
+
+// A retake can only begin where a phrase begins: the first word, a segment start,
+// after sentence punctuation, or after a pause
+function isPhraseStart(words: WhisperWord[], index: number, segmentStarts: Set<number>): boolean {
+  if (index === 0) return true;
+  const previous = words[index - 1];
+  if (/[.!?,;:…-]$/.test(previous.word.trim())) return true;
+  if ((words[index].start - previous.end) * 1000 >= RETAKE_SETTINGS.phraseGapMs) return true;
+  return segmentStarts.has(Math.round(words[index].start * 1000));
+}
+
+// Find abandoned attempts that are immediately restarted with (nearly) the same words.
+// The earlier attempt words[i..j) is compared with the same number of words from j,
+// so a truncated first attempt matches the beginning of the full retake.
+export function detectRetakes(words: WhisperWord[], segments: WhisperSegment[]): Retake[] {
+  const { minWords, maxWords, windowMs, minSimilarity, autoRemoveSimilarity } = RETAKE_SETTINGS;
+  const segmentStarts = new Set(segments.map((s) => Math.round(s.start * 1000)));
+  const texts = words.map((w) => w.word);
+  const retakes: Retake[] = [];
+
+  let i = 0;
+  while (i < words.length) {
+    if (!isPhraseStart(words, i, segmentStarts)) {
+      i++;
+      continue;
+    }
+
+    let best: { j: number; similarity: number } | null = null;
+
+    for (let n = minWords; n <= maxWords; n++) {
+      const j = i + n;
+      if (j + n > words.length) break;
+      if ((words[j].start - words[i].start) * 1000 > windowMs) break;
+
+      const attempt = texts.slice(i, j);
+      const retake = texts.slice(j, j + n);
+      const similarity = textSimilarity(attempt, retake);
+
+      // Prefer the longest attempt among equally good matches
+      if (similarity >= minSimilarity && (!best || similarity >= best.similarity)) {
+        best = { j, similarity };
+      }
+    }
+
+    if (!best) {
+      i++;
+      continue;
+    }
+
+    const wordCount = best.j - i;
+    const similarity = Math.round(best.similarity * 100) / 100;
+    retakes.push({
+      text: texts.slice(i, best.j).join(" "),
+      retakeText: texts.slice(best.j, best.j + wordCount).join(" "),
+      startMs: Math.round(words[i].start * 1000),
+      endMs: Math.round(words[best.j].start * 1000),
+      index: i,
+      wordCount,
+      similarity,
+      autoRemove: similarity >= autoRemoveSimilarity,
+    });
+
+    // The retake itself may be restarted again, so continue from it
+    i = best.j;
+  }
+
+  return retakes;
+}
@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { WhisperWord } from "../types.js";
+import { detectAudioPauses } from "./silence.js";
+
+const words: WhisperWord[] = [
+  { word: "one", start: 0.5, end: 1 },
+  { word: "two", start: 2, end: 2.5 },
+  { word: "three", start: 2.6, end: 3 },
+];
+
+const spans = (pauses: { startMs: number; endMs: number }[]) => pauses.map((p) => [p.startMs, p.endMs]);
+
+test("detectAudioPauses trims silences that run into words to the word boundaries", () => {
+  const pauses = detectAudioPauses(words, [{ start: 0.9, end: 2.1 }], 5000);
+  assert.deepEqual(spans(pauses), [[1000, 2000]]);
+  assert.equal(pauses[0].afterWordIndex, 0);
+  assert.equal(pauses[0].durationMs, 1000);
+});
+
+test("detectAudioPauses turns dead air at either end into edge pauses", () => {
+  const silences = [
+    { start: 0, end: 0.6 },
+    { start: 2.9, end: 5 },
+  ];
+  const pauses = detectAudioPauses(words, silences, 5000);
+  assert.deepEqual(spans(pauses), [[0, 500], [3000, 5000]]);
+  assert.deepEqual(pauses.map((p) => p.edge), ["leading", "trailing"]);
+});
+
+test("detectAudioPauses ignores silences shorter than detectMs between words", () => {
+  assert.deepEqual(detectAudioPauses(words, [{ start: 2.4, end: 2.7 }], 5000), []);
+});
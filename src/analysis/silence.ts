@@ -0,0 +1,77 @@
+import { PAUSE_THRESHOLDS, SILENCE_SETTINGS } from "../config.js";
+import { SilenceInterval } from "../lib/audio.js";
+import { Pause, WhisperWord } from "../types.js";
+
+function toPause(
+  startMs: number,
+  endMs: number,
+  afterWordIndex: number,
+  edge?: "leading" | "trailing"
+): Pause {
+  const durationMs = endMs - startMs;
+  return {
+    startMs,
+    endMs,
+    durationMs,
+    afterWordIndex,
+    source: "audio",
+    ...(edge ? { edge } : {}),
+    autoRemove: edge ? SILENCE_SETTINGS.trimEdges : durationMs >= PAUSE_THRESHOLDS.autoRemoveMs,
+  };
+}
+
+// Turn detected silences into pauses, trimmed to the word boundaries so a pause never
+// covers any of a word's time range. Leading and trailing silence (before the first
+// word / after the last, give or take wordBoundaryToleranceMs) become edge pauses.
+export function detectAudioPauses(
+  words: WhisperWord[],
+  silences: SilenceInterval[],
+  durationMs: number
+): Pause[] {
+  const toleranceMs = SILENCE_SETTINGS.wordBoundaryToleranceMs;
+  const pauses: Pause[] = [];
+
+  if (words.length === 0) {
+    return pauses;
+  }
+
+  const firstStartMs = Math.round(words[0].start * 1000);
+  const lastEndMs = Math.round(words[words.length - 1].end * 1000);
+
+  for (const silence of silences) {
+    const silenceStartMs = Math.round(silence.start * 1000);
+    const silenceEndMs = Math.min(Math.round(silence.end * 1000), durationMs);
+
+    // Leading dead air: silence from the start of the file up to the first word
+    if (silenceStartMs <= toleranceMs && silenceEndMs <= firstStartMs + toleranceMs) {
+      const endMs = Math.min(silenceEndMs, firstStartMs);
+      if (endMs > 0) {
+        pauses.push(toPause(0, endMs, -1, "leading"));
+      }
+      continue;
+    }
+
+    // Trailing dead air: silence from the last word to the end of the file
+    if (silenceEndMs >= durationMs - toleranceMs && silenceStartMs >= lastEndMs - toleranceMs) {
+      const startMs = Math.max(silenceStartMs, lastEndMs);
+      if (durationMs > startMs) {
+        pauses.push(toPause(startMs, durationMs, words.length - 1, "trailing"));
+      }
+      continue;
+    }
+
+    // Gap between words: clip to the neighbouring word boundaries
+    for (let i = 0; i < words.length - 1; i++) {
+      const gapStartMs = Math.round(words[i].end * 1000);
+      const gapEndMs = Math.round(words[i + 1].start * 1000);
+      const startMs = Math.max(silenceStartMs, gapStartMs);
+      const endMs = Math.min(silenceEndMs, gapEndMs);
+
+      if (endMs - startMs >= PAUSE_THRESHOLDS.detectMs) {
+        pauses.push(toPause(startMs, endMs, i));
+      }
+    }
+  }
+
+  return pauses.sort((a, b) => a.startMs - b.startMs);
+}
@@ -0,0 +1,168 @@
+import { CUT_SETTINGS, TARGET_DURATION_SETTINGS } from "../config.js";
+import { mergeSegments, padSegment, totalSegmentDuration } from "../lib/segments.js";
+import { SKIP_WORDS } from "../lib/stopwords.js";
+import {
+  FillerWord,
+  Pause,
+  TargetTrimChoice,
+  TargetTrimReport,
+  TimeSegment,
+  WhisperSegment,
+  WhisperWord,
+} from "../types.js";
+
+interface Sentence {
+  startMs: number;
+  endMs: number;
+  text: string;
+  importance: number;
+}
+
+function normalize(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+}
+
+// Split words into sentences at sentence punctuation and segment boundaries.
+// Each sentence runs until the next one starts so cutting it removes the gap too.
+function splitSentences(words: WhisperWord[], segments: WhisperSegment[]): WhisperWord[][] {
+  const segmentStarts = new Set(segments.map((s) => Math.round(s.start * 1000)));
+  const sentences: WhisperWord[][] = [];
+  let current: WhisperWord[] = [];
+
+  for (const word of words) {
+    if (current.length > 0 && segmentStarts.has(Math.round(word.start * 1000))) {
+      sentences.push(current);
+      current = [];
+    }
+    current.push(word);
+    if (/[.!?]$/.test(word.word.trim())) {
+      sentences.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) {
+    sentences.push(current);
+  }
+
+  return sentences;
+}
+
+// Heuristic importance: share of content words, with numbers counting double.
+// Short, function-word-heavy sentences score lowest.
+function scoreSentence(words: WhisperWord[]): number {
+  let score = 0;
+  for (const word of words) {
+    const text = normalize(word.word);
+    if (/\d/.test(text)) {
+      score += 2;
+    } else if (text && !SKIP_WORDS.has(text)) {
+      score += 1;
+    }
+  }
+  return score / words.length;
+}
+
+function buildSentences(words: WhisperWord[], segments: WhisperSegment[]): Sentence[] {
+  const groups = splitSentences(words, segments);
+  return groups.map((group, i) => {
+    const next = groups[i + 1];
+    return {
+      startMs: Math.round(group[0].start * 1000),
+      endMs: Math.round((next ? next[0].start : group[group.length - 1].end) * 1000),
+      text: group.map((w) => w.word).join(" "),
+      importance: Math.round(scoreSentence(group) * 100) / 100,
+    };
+  });
+}
+
+function quote(text: string, maxLength = 60): string {
+  return `"${text.length > maxLength ? `${text.slice(0, maxLength)}...` : text}"`;
+}
+
+// Rank extra removals until the cut video fits targetMs:
+// long pauses first, then contextual fillers, then the least important sentences
+export function planTargetTrim(options: {
+  words: WhisperWord[];
+  segments: WhisperSegment[];
+  pauses: Pause[];
+  fillerWords: FillerWord[];
+  cuts: TimeSegment[];
+  originalDurationMs: number;
+  targetMs: number;
+}): { segments: TimeSegment[]; report: TargetTrimReport } {
+  const { words, segments, pauses, fillerWords, cuts, originalDurationMs, targetMs } = options;
+
+  const candidates: Omit<TargetTrimChoice, "savedMs">[] = [];
+
+  // Pauses keep the same padding generateCutsData leaves around removed pauses
+  const pausePadding = { preRollMs: 0, postRollMs: 0, ...CUT_SETTINGS.padding.pause };
+  for (const pause of [...pauses].sort((a, b) => b.durationMs - a.durationMs)) {
+    if (pause.autoRemove || pause.edge) continue;
+    const padded = padSegment(
+      { startMs: pause.startMs, endMs: pause.endMs, reason: "" },
+      pausePadding
+    );
+    if (!padded) continue;
+    candidates.push({
+      kind: "pause",
+      startMs: padded.startMs,
+      endMs: padded.endMs,
+      reason: `target: pause ${pause.durationMs}ms (long pauses are cut first)`,
+    });
+  }
+
+  const contextual = fillerWords.filter((f) => f.contextual && !f.autoRemove);
+  for (const filler of contextual.sort((a, b) => (b.endMs - b.startMs) - (a.endMs - a.startMs))) {
+    candidates.push({
+      kind: "contextual-filler",
+      startMs: filler.startMs,
+      endMs: filler.endMs,
+      reason: `target: contextual filler "${filler.word}" (fillers are cut after pauses)`,
+    });
+  }
+
+  const sentences = buildSentences(words, segments);
+  const cuttable = TARGET_DURATION_SETTINGS.keepFirstSentence ? sentences.slice(1) : sentences;
+  for (const sentence of [...cuttable].sort((a, b) => a.importance - b.importance)) {
+    candidates.push({
+      kind: "sentence",
+      startMs: sentence.startMs,
+      endMs: sentence.endMs,
+      reason: `target: low-importance sentence (score ${sentence.importance}) ${quote(sentence.text)}`,
+    });
+  }
+
+  const durationBeforeMs = originalDurationMs - totalSegmentDuration(mergeSegments(cuts));
+  let current = [...cuts];
+  let durationMs = durationBeforeMs;
+  const chosen: TimeSegment[] = [];
+  const choices: TargetTrimChoice[] = [];
+
+  for (const candidate of candidates) {
+    if (durationMs <= targetMs) break;
+
+    const next = [...current, candidate];
+    const nextDurationMs = originalDurationMs - totalSegmentDuration(mergeSegments(next));
+    const savedMs = durationMs - nextDurationMs;
+
+    // Already covered by existing cuts
+    if (savedMs <= 0) continue;
+
+    current = next;
+    durationMs = nextDurationMs;
+    chosen.push({ startMs: candidate.startMs, endMs: candidate.endMs, reason: candidate.reason });
+    choices.push({ ...candidate, savedMs });
+  }
+
+  return {
+    segments: chosen,
+    report: {
+      targetMs,
+      originalDurationMs,
+      durationBeforeMs,
+      durationAfterMs: durationMs,
+      reached: durationMs <= targetMs,
+      choices,
+    },
+  };
+}
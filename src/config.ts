@@ -1,20 +1,67 @@
 import { PipelineConfig } from "./types.js";
+import { loadProjectConfig } from "./lib/project-config.js";
 import path from "path";
 import { fileURLToPath } from "url";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const projectRoot = path.resolve(__dirname, "..");
 
+// Per-project overrides, read from project.json in the project root and
+// merged over the defaults below (see the end of this file)
+export const PROJECT_CONFIG_PATH = path.join(projectRoot, "project.json");
+
 export const config: PipelineConfig = {
   inputDir: path.join(projectRoot, "input"),
   outputDir: path.join(projectRoot, "output"),
   dataDir: path.join(projectRoot, "data"),
   tempDir: path.join(projectRoot, "temp"),
+  cacheDir: path.join(projectRoot, "cache"),
   fps: 30,
   width: 1080,
   height: 1920,
 };
 
+// Transcription provider settings
+// Provider can be overridden with the TRANSCRIBER env var ("openai" or "local")
+export const TRANSCRIPTION_SETTINGS = {
+  provider: process.env.TRANSCRIBER || "openai",
+  // OpenAI Whisper API model
+  openaiModel: "whisper-1",
+  // Local CLI transcriber (runs on CPU, no network needed)
+  local: {
+    // "whisper-cpp" (whisper.cpp CLI) or "faster-whisper" (whisper-ctranslate2 CLI)
+    engine: process.env.LOCAL_WHISPER_ENGINE || "whisper-cpp",
+    // Binary name or path
+    binary: process.env.LOCAL_WHISPER_BIN || "whisper-cli",
+    // whisper.cpp: path to a ggml model file; faster-whisper: model name or directory
+    model: process.env.LOCAL_WHISPER_MODEL || path.join(projectRoot, "models", "ggml-base.en.bin"),
+    language: "en",
+    threads: 4,
+  },
+  // Long audio is split into overlapping chunks when it exceeds the provider's upload limit
+  chunking: {
+    // Target chunk length (16 kHz mono WAV is ~1.9 MB per minute)
+    chunkSeconds: 600,
+    // Audio shared between neighbouring chunks
+    overlapSeconds: 5,
+    // How far before the target split point to look for a silence
+    silenceSearchSeconds: 60,
+    // silencedetect settings for finding split points
+    silenceNoiseDb: -35,
+    silenceMinSeconds: 0.3,
+  },
+};
+
+// Speaker diarization settings (optional step between transcription and filler analysis)
+export const DIARIZATION_SETTINGS = {
+  // "rttm" reads a user-supplied .rttm file from input/, "local" runs localCommand
+  provider: process.env.DIARIZER || "rttm",
+  // Local diarization command that writes RTTM; {audio} and {output} are replaced with paths
+  localCommand: process.env.DIARIZE_COMMAND || "diarize {audio} {output}",
+  // Words further than this from any speaker turn are left unlabeled
+  maxGapSeconds: 1,
+};
+
 // Filler words to detect (case-insensitive)
 export const FILLER_WORDS = [
   "um",
@@ -36,6 +83,14 @@ export const FILLER_WORDS = [
   "well", // Only at sentence start as filler
 ];
 
+// Context rules for FILLER_WORDS entries that are also ordinary words
+export const CONTEXTUAL_FILLERS = {
+  // Only a filler at the start of a sentence ("So, ...", "Well, ...")
+  sentenceStartOnly: ["so", "well"],
+  // Only a filler when set off by commas or at a sentence start ("it was, like, huge")
+  standaloneOnly: ["like"],
+};
+
 // Filler word patterns (regex)
 export const FILLER_PATTERNS = [
   /^u+[hm]+$/i, // um, uh, uhm, uhh, umm, etc.
@@ -44,6 +99,58 @@ export const FILLER_PATTERNS = [
   /^h+m+$/i, // hm, hmm
 ];
 
+// Breath and mouth-click detection inside pauses (uses the extracted WAV)
+export const MOUTH_NOISE_SETTINGS = {
+  enabled: true,
+  // What to suggest for each kind: "remove", "attenuate" or "keep"
+  breathAction: "attenuate" as "remove" | "attenuate" | "keep",
+  clickAction: "attenuate" as "remove" | "attenuate" | "keep",
+  // Volume change for attenuated noises, with a short fade in/out
+  attenuateDb: -18,
+  fadeMs: 20,
+  // Breaths are noise-like (high spectral flatness) and last 100-900ms
+  breathMinMs: 100,
+  breathMaxMs: 900,
+  breathMinFlatness: 0.25,
+  // Clicks are short transients well above the gap's noise floor
+  clickMaxMs: 40,
+  clickMinCrestDb: 12,
+  // Frames this far above the gap's noise floor count as noise events
+  eventAboveFloorDb: 8,
+};
+
+// Repeated word and stutter detection
+export const REPETITION_SETTINGS = {
+  // Longest repeated phrase to detect ("of the of the" is 2 words)
+  maxPhraseWords: 3,
+  // Repeats further apart than this are treated as intentional
+  maxGapMs: 1000,
+  // Words that are commonly repeated on purpose ("that that", "very very")
+  allowedRepeats: ["that", "had", "very", "no", "yeah", "bye", "ha", "really", "so"],
+  // Stutters without a trailing dash ("pro product", as OpenAI words have no
+  // punctuation): the fragment needs this many letters and must run straight
+  // into the word. Common short words ("in inside") are never fragments.
+  // Undashed fragments may be real words ("car carefully"), so they are only
+  // suggested, never cut automatically.
+  stutterMinChars: 2,
+  stutterMaxGapMs: 150,
+};
+
+// Retake / false-start detection
+export const RETAKE_SETTINGS = {
+  // Shortest and longest abandoned attempt (in words)
+  minWords: 3,
+  maxWords: 25,
+  // Attempts must start within this long of each other
+  windowMs: 20000,
+  // Minimum similarity (0-1) to report a retake
+  minSimilarity: 0.75,
+  // Similarity at which the earlier attempt is cut automatically
+  autoRemoveSimilarity: 0.9,
+  // Pause before a word that marks a phrase start
+  phraseGapMs: 300,
+};
+
 // Pause detection thresholds (in milliseconds)
 export const PAUSE_THRESHOLDS = {
   // Minimum pause duration to detect
@@ -52,6 +159,49 @@ export const PAUSE_THRESHOLDS = {
   autoRemoveMs: 1000,
 };
 
+// Cut padding and cleanup rules (step 2)
+export const CUT_SETTINGS = {
+  // Audio left in place around each cut, by reason. postRollMs is kept after the
+  // speech before the cut, preRollMs before the speech after it.
+  padding: {
+    filler: { preRollMs: 20, postRollMs: 20 },
+    repeat: { preRollMs: 20, postRollMs: 20 },
+    stutter: { preRollMs: 20, postRollMs: 20 },
+    retake: { preRollMs: 20, postRollMs: 20 },
+    pause: { preRollMs: 200, postRollMs: 200 },
+    // Dead air at the start/end only has speech on one side
+    silence: { preRollMs: 200, postRollMs: 200 },
+    breath: { preRollMs: 0, postRollMs: 0 },
+    click: { preRollMs: 0, postRollMs: 0 },
+  } as Record<string, { preRollMs?: number; postRollMs?: number }>,
+  // Kept stretches shorter than this between two cuts are cut too
+  minKeptSegmentMs: 250,
+  // Cuts shorter than this (after padding and merging) are dropped
+  minCutMs: 80,
+};
+
+// Audio-energy silence detection (ffmpeg silencedetect), used for pauses when audio is available
+export const SILENCE_SETTINGS = {
+  enabled: true,
+  // Audio below this level counts as silence
+  noiseDb: -35,
+  // Shortest silence to report
+  minDurationMs: 300,
+  // Whisper word timestamps are loose; silence that starts or ends this close to the
+  // first or last word still counts as leading/trailing dead air. Pauses are always
+  // trimmed to the word timestamps, so cuts never take part of a word.
+  wordBoundaryToleranceMs: 150,
+  // Trim dead air before the first word and after the last word
+  trimEdges: true,
+};
+
+// Target-duration trimming (step 2). Set with --target <seconds> or TARGET_DURATION.
+export const TARGET_DURATION_SETTINGS = {
+  targetSeconds: Number(process.env.TARGET_DURATION) || null,
+  // Never cut the first sentence (the hook)
+  keepFirstSentence: true,
+};
+
 // Caption styling
 export const CAPTION_STYLES = {
   // Emphasis color (TikTok green)
@@ -70,6 +220,37 @@ export const CAPTION_STYLES = {
   bottomOffset: "20%",
 };
 
+// Caption pagination (step 4)
+export const PAGINATION_SETTINGS = {
+  // "smart" breaks at sentence ends, pauses and the width limit;
+  // "fixed" puts CAPTION_STYLES.wordsPerPage words on each page
+  strategy: "smart" as "smart" | "fixed",
+  // Start a new page at a gap between words at least this long
+  breakOnPauseMs: 400,
+  // Don't break at sentence punctuation until the page has been up this long
+  minPageMs: 700,
+  // Most lines on a page; words are split into lines of balanced length
+  maxLines: 2,
+  // Longest line in characters (used when no font file is set)
+  maxChars: 18,
+  // Font file (.ttf or .otf) matching fontFamily, to measure lines in pixels
+  fontFile: process.env.CAPTION_FONT_FILE || "",
+  // Widest line as a percentage of the video width (used with fontFile)
+  maxWidthPercent: 80,
+};
+
+// When caption pages appear and disappear (step 4)
+export const PAGE_TIMING_SETTINGS = {
+  // Show each page at least this long
+  minDisplayMs: 800,
+  // Keep a page up this long after its last word ends
+  lingerMs: 200,
+  // Show a page this long before its first word is spoken
+  leadInMs: 100,
+  // Keep a page up until the next one when the gap between them is shorter than this
+  gapFillMs: 600,
+};
+
 // FFmpeg settings
 export const FFMPEG_SETTINGS = {
   // Audio codec for extraction
@@ -89,3 +270,127 @@ export const GPT_SETTINGS = {
   emphasisMinPercent: 15,
   emphasisMaxPercent: 25,
 };
+
+// Prosody (loudness, pitch, duration) emphasis from the extracted WAV (step 3)
+export const PROSODY_SETTINGS = {
+  // How much prosody can change the detector's picks: 0 = detector only,
+  // 1 = prosody only (no detector call). A skipped word replaces a pick when its
+  // stress ranks more than 1 - blend above the pick's among the candidates (0.3:
+  // a top 15% word can replace a bottom 15% pick). Can be set with PROSODY_BLEND.
+  blend: process.env.PROSODY_BLEND ? Number(process.env.PROSODY_BLEND) : 0.3,
+  // Relative weight of each feature in the prosody score
+  weights: { loudness: 1, pitch: 1, duration: 0.7 },
+  // Words on each side a word is compared against (stress is relative to its surroundings)
+  contextWords: 10,
+  // Pitch search range for speech
+  minPitchHz: 70,
+  maxPitchHz: 400,
+};
+
+// Emphasis detection backend
+// Provider can be overridden with the EMPHASIS_PROVIDER env var ("openai", "local" or "heuristic")
+export const EMPHASIS_SETTINGS = {
+  provider: process.env.EMPHASIS_PROVIDER || "openai",
+  // OpenAI-compatible local server (Ollama, llama.cpp server, LM Studio, ...)
+  local: {
+    baseURL: process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1",
+    model: process.env.LOCAL_LLM_MODEL || "llama3.1",
+    // Most local servers ignore the key but the client requires one
+    apiKey: process.env.LOCAL_LLM_API_KEY || "local",
+  },
+  // Long transcripts are sent in windows; density targets apply per window
+  window: {
+    // Words the detector picks from in each window
+    words: 250,
+    // Extra words shown on each side as context (not pickable)
+    contextWords: 30,
+  },
+};
+
+// Every setting optional at every level, as a project.json section sets them
+type DeepPartial<T> = T extends readonly unknown[]
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Merge a project.json section into its settings object in place: nested
+// objects are merged, arrays and other values replace the default. A schema
+// section whose types don't match its settings object fails to compile.
+function mergeInto<T extends object>(target: T, overrides: DeepPartial<T> | undefined) {
+  if (!overrides) return;
+  const settings = target as Record<string, unknown>;
+  for (const [key, value] of Object.entries(overrides)) {
+    const current = settings[key];
+    if (isPlainObject(current) && isPlainObject(value)) {
+      mergeInto(current, value);
+    } else if (value !== undefined) {
+      settings[key] = value;
+    }
+  }
+}
+
+function replaceList<T>(target: T[], values: T[] | undefined) {
+  if (values) target.splice(0, target.length, ...values);
+}
+
+interface EnvSetting {
+  target: Record<string, unknown>;
+  key: string;
+  env: string;
+}
+
+function envSetting<T extends object>(target: T, key: keyof T & string, env: string): EnvSetting {
+  return { target: target as Record<string, unknown>, key, env };
+}
+
+// Settings read from env vars above. An env var that is set wins over
+// project.json, which wins over the defaults.
+const ENV_SETTINGS = [
+  envSetting(TRANSCRIPTION_SETTINGS, "provider", "TRANSCRIBER"),
+  envSetting(TRANSCRIPTION_SETTINGS.local, "engine", "LOCAL_WHISPER_ENGINE"),
+  envSetting(TRANSCRIPTION_SETTINGS.local, "binary", "LOCAL_WHISPER_BIN"),
+  envSetting(TRANSCRIPTION_SETTINGS.local, "model", "LOCAL_WHISPER_MODEL"),
+  envSetting(DIARIZATION_SETTINGS, "provider", "DIARIZER"),
+  envSetting(DIARIZATION_SETTINGS, "localCommand", "DIARIZE_COMMAND"),
+  envSetting(TARGET_DURATION_SETTINGS, "targetSeconds", "TARGET_DURATION"),
+  envSetting(PAGINATION_SETTINGS, "fontFile", "CAPTION_FONT_FILE"),
+  envSetting(PROSODY_SETTINGS, "blend", "PROSODY_BLEND"),
+  envSetting(EMPHASIS_SETTINGS, "provider", "EMPHASIS_PROVIDER"),
+  envSetting(EMPHASIS_SETTINGS.local, "baseURL", "LOCAL_LLM_BASE_URL"),
+  envSetting(EMPHASIS_SETTINGS.local, "model", "LOCAL_LLM_MODEL"),
+  envSetting(EMPHASIS_SETTINGS.local, "apiKey", "LOCAL_LLM_API_KEY"),
+];
+
+// Apply project.json so every script sees the merged settings
+const project = loadProjectConfig(PROJECT_CONFIG_PATH);
+const envValues = ENV_SETTINGS.filter((s) => process.env[s.env]).map((s) => ({ ...s, value: s.target[s.key] }));
+mergeInto(config, project.video);
+mergeInto(TRANSCRIPTION_SETTINGS, project.transcriptionSettings);
+mergeInto(DIARIZATION_SETTINGS, project.diarizationSettings);
+replaceList(FILLER_WORDS, project.fillerWords);
+mergeInto(CONTEXTUAL_FILLERS, project.contextualFillers);
+replaceList(FILLER_PATTERNS, project.fillerPatterns?.map((source) => new RegExp(source, "i")));
+mergeInto(MOUTH_NOISE_SETTINGS, project.mouthNoiseSettings);
+mergeInto(REPETITION_SETTINGS, project.repetitionSettings);
+mergeInto(RETAKE_SETTINGS, project.retakeSettings);
+mergeInto(PAUSE_THRESHOLDS, project.pauseThresholds);
+mergeInto(CUT_SETTINGS, project.cutSettings);
+mergeInto(SILENCE_SETTINGS, project.silenceSettings);
+mergeInto(TARGET_DURATION_SETTINGS, project.targetDurationSettings);
+mergeInto(CAPTION_STYLES, project.captionStyles);
+mergeInto(PAGINATION_SETTINGS, project.paginationSettings);
+mergeInto(PAGE_TIMING_SETTINGS, project.pageTimingSettings);
+mergeInto(FFMPEG_SETTINGS, project.ffmpegSettings);
+mergeInto(GPT_SETTINGS, project.gptSettings);
+mergeInto(EMPHASIS_SETTINGS, project.emphasisSettings);
+mergeInto(PROSODY_SETTINGS, project.prosodySettings);
+
+// Put back the values from explicitly set env vars
+for (const { target, key, value } of envValues) {
+  target[key] = value;
+}
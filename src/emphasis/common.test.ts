@@ -0,0 +1,18 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { splitEmphasisWindows } from "./common.js";
+
+const candidates = (count: number) => Array.from({ length: count }, (_, index) => ({ word: `w${index}`, index }));
+const indexes = (words: { index: number }[]) => [words[0].index, words[words.length - 1].index];
+
+test("splitEmphasisWindows adds context words around each core", () => {
+  const windows = splitEmphasisWindows(candidates(20), 10, 3);
+  assert.deepEqual(windows.map((w) => indexes(w.core)), [[0, 9], [10, 19]]);
+  assert.deepEqual(windows.map((w) => indexes(w.words)), [[0, 12], [7, 19]]);
+});
+
+test("splitEmphasisWindows folds a short tail into the previous window", () => {
+  const windows = splitEmphasisWindows(candidates(22), 10, 3);
+  assert.deepEqual(windows.map((w) => indexes(w.core)), [[0, 9], [10, 21]]);
+  assert.deepEqual(splitEmphasisWindows(candidates(2), 10, 3).map((w) => indexes(w.core)), [[0, 1]]);
+});
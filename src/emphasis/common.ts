@@ -0,0 +1,56 @@
+import { EMPHASIS_SETTINGS, GPT_SETTINGS } from "../config.js";
+import { EmphasisCandidate, EmphasisCategory } from "../types.js";
+
+export const EMPHASIS_CATEGORIES: EmphasisCategory[] = [
+  "number",
+  "emotion",
+  "key-noun",
+  "action",
+  "warning",
+];
+
+export function isEmphasisCategory(value: unknown): value is EmphasisCategory {
+  return EMPHASIS_CATEGORIES.includes(value as EmphasisCategory);
+}
+
+// Number of words to emphasize, from the GPT_SETTINGS percentage range
+export function getEmphasisTarget(wordCount: number): { min: number; max: number } {
+  return {
+    min: Math.floor(wordCount * (GPT_SETTINGS.emphasisMinPercent / 100)),
+    max: Math.ceil(wordCount * (GPT_SETTINGS.emphasisMaxPercent / 100)),
+  };
+}
+
+// Lowercase and strip punctuation and spaces for matching
+export function normalizeEmphasisWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+}
+
+export interface EmphasisWindow {
+  // Words the detector may pick from
+  core: EmphasisCandidate[];
+  // Core plus context words on each side (overlapping neighbouring windows)
+  words: EmphasisCandidate[];
+}
+
+// Split the transcript into consecutive windows with overlapping context.
+// A short tail is folded into the previous window rather than left on its own.
+export function splitEmphasisWindows(
+  words: EmphasisCandidate[],
+  size = EMPHASIS_SETTINGS.window.words,
+  contextWords = EMPHASIS_SETTINGS.window.contextWords
+): EmphasisWindow[] {
+  const bounds: [number, number][] = [];
+  for (let start = 0; start < words.length; start += size) {
+    bounds.push([start, Math.min(start + size, words.length)]);
+  }
+  if (bounds.length > 1 && bounds[bounds.length - 1][1] - bounds[bounds.length - 1][0] < size / 4) {
+    const tail = bounds.pop()!;
+    bounds[bounds.length - 1][1] = tail[1];
+  }
+
+  return bounds.map(([start, end]) => ({
+    core: words.slice(start, end),
+    words: words.slice(Math.max(0, start - contextWords), Math.min(words.length, end + contextWords)),
+  }));
+}
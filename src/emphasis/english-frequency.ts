@@ -0,0 +1,96 @@
+// The most common English words, most frequent first (spoken and written
+// usage combined). A word's rank stands in for its document frequency when
+// scoring rare words; words missing from the list count as rarer than all of them.
+const WORDS = `
+the be to of and a in that have i it for not on with he as you do at
+this but his by from they we say her she or an will my one all would there
+their what so up out if about who get which go me when make can like time no
+just him know take people into year your good some could them see other than then now
+look only come its over think also back after use two how our work first well
+way even new want because any these give day most us is was are been has had
+were said did got made went came took saw knew thought told
+very through down should still own where much right here too really something mean
+thing things many more before off life again never last long great little world always
+same another while house every old part place around without those both each case between
+under find tell ask seem feel try leave call keep let begin help show hear play
+run move live believe hold bring happen write provide sit stand lose pay meet include
+continue set learn change lead understand watch follow stop create speak read allow add spend
+grow open walk win offer remember love consider appear buy wait serve die send expect
+build stay fall cut reach kill remain suggest raise pass sell require report decide pull
+man woman child children men women family friend kid kids mother father parent home school
+student group country problem hand eye head face number point government company system program
+question night room money story fact month lot study book job word business issue side
+kind water area week team minute idea body information level office door health person art
+war history party result change morning reason research girl guy moment air teacher force education
+foot feet boy age policy everything process music market sense nation plan college interest death
+experience effect class control care field development role effort rate heart drug show leader light
+voice wife police mind price report decision son daughter view relationship town road arm difference
+value building action model season society tax director position player record paper space ground form
+event official matter center couple site project activity star table need court oil situation cost
+industry figure street image phone data picture practice piece land product doctor wall patient worker
+news test movie north south east west love support technology step baby computer type attention film
+tree source organization hair window evidence population truth glass plant answer media video camera
+sure better best least less enough quite almost often later sometimes together already
+yet ever maybe probably actually basically literally exactly pretty simply
+important different large small big high low early young real whole free possible major
+public sure able human local late hard social special clear open full short bad certain
+personal single common poor natural significant similar hot dead central happy serious ready simple left
+physical general environmental financial blue democratic dark various entire close legal religious cold final
+main green nice huge popular traditional cultural wrong easy strong true available current fine
+political black white red hundred thousand million billion percent half second third
+one two three four five six seven eight nine ten twenty thirty fifty
+today tomorrow yesterday tonight week weekend year years month months day days hour hours
+minute minutes second seconds time times moment moments
+okay ok yeah yes hey oh wow hi hello thanks thank please sorry
+gonna wanna gotta kinda sorta
+i'm you're he's she's it's we're they're i've you've we've they've i'll you'll he'll
+she'll we'll they'll i'd you'd he'd she'd we'd they'd isn't aren't wasn't weren't
+don't doesn't didn't won't wouldn't can't couldn't shouldn't haven't hasn't hadn't
+that's there's here's what's who's where's how's let's
+going doing making getting looking thinking saying working trying talking coming taking
+using being having seeing feeling putting giving telling playing starting
+start end turn put become mean need ask try
+across against along among behind below beside beyond during except inside near
+outside since toward towards upon within although though unless until whether
+also else however instead perhaps rather therefore thus anyway otherwise
+everyone everybody someone somebody anyone anybody nobody nothing anything
+everywhere somewhere anywhere nowhere whatever whenever wherever whoever
+myself yourself himself herself itself ourselves themselves
+able across actually add ago agree ahead allow alone along already although
+amount anyone apply approach argue arrive article artist assume attack audience author
+available avoid away base beat beautiful become bed behavior benefit beyond bill
+bit blood board born box break brother budget call camp campaign card career
+carry catch cause cell chance character charge check choice choose church citizen
+claim clearly coach collection color commercial community compare concern condition conference congress
+consumer contain cover crime culture cup current customer deal debate deep defense
+degree describe design despite detail determine develop die dinner discover discuss disease
+drive drop economic economy edge effect election employee energy enjoy environment especially
+establish even evening exist expert explain eye factor fail fear federal feeling
+fight fill film finally fire firm fish floor fly focus food form
+forward front fund future game garden gas generation goal hang happy heat
+herself hit hope hospital hotel however husband identify imagine impact improve increase
+indeed indicate individual instead institution international interview investment involve item itself join
+key kitchen knowledge lawyer lay laugh letter lie likely line list listen
+loss machine magazine maintain manage management manager measure medical meeting member memory
+message method middle military miss mission modern mouth movement mrs nature necessary
+network note notice occur option order outside page pain painting paper partner
+peace perform performance period pick pressure prevent private produce professional professor property
+protect prove purpose quality range rather realize receive recent recently recognize reduce
+reflect region relate remove represent resource respond response rest return reveal rich
+rise risk rock rule safe save scene science scientist score sea seat
+security senior series serve service seven share shoot shot shoulder sign sing
+sister size skill skin smile soldier somebody song soon sort sound speech
+sport staff stage state statement stock store strategy structure style subject success
+suffer summer surface system talk task teach television term thank theory threat
+throw top total tough trade training travel treat treatment trial trip trouble
+usually various victim view visit vote wear weight whatever wind wish within
+worry writer
+`;
+
+// Frequency rank of each word (0 = most common)
+export const ENGLISH_WORD_RANKS: Map<string, number> = new Map();
+for (const word of WORDS.split(/\s+/)) {
+  if (word && !ENGLISH_WORD_RANKS.has(word)) {
+    ENGLISH_WORD_RANKS.set(word, ENGLISH_WORD_RANKS.size);
+  }
+}
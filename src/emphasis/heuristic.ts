@@ -0,0 +1,163 @@
+import { FILLER_PATTERNS } from "../config.js";
+import {
+  EmphasisCandidate,
+  EmphasisCategory,
+  EmphasisDetector,
+  EmphasisWord,
+} from "../types.js";
+import { SKIP_WORDS } from "../lib/stopwords.js";
+import { getEmphasisTarget, splitEmphasisWindows } from "./common.js";
+import { ENGLISH_WORD_RANKS } from "./english-frequency.js";
+
+// Words that make a number or statistic on their own
+const NUMBER_WORDS = new Set([
+  "zero", "hundred", "hundreds", "thousand", "thousands", "million", "millions",
+  "billion", "billions", "trillion", "percent", "dozen", "dozens", "twice",
+  "double", "triple", "half",
+]);
+
+const NEGATIONS = new Set([
+  "never", "nothing", "nobody", "none", "nowhere", "neither", "without",
+  "don't", "doesn't", "didn't", "won't", "wouldn't", "can't", "cannot",
+  "couldn't", "shouldn't", "isn't", "aren't", "wasn't", "weren't",
+  "haven't", "hasn't", "hadn't",
+]);
+
+const SUPERLATIVES = new Set(["best", "worst", "least", "ultimate"]);
+
+// Common words that end in -est without being superlatives
+const NOT_SUPERLATIVE = new Set([
+  "interest", "request", "suggest", "honest", "forest", "harvest", "invest",
+  "protest", "contest", "digest", "arrest", "manifest", "modest", "guest",
+  "chest", "nest", "rest", "test", "west", "quest", "vest", "pest", "zest",
+  "latest", "earnest", "attest", "detest", "infest", "conquest", "behest",
+]);
+
+// Word not in the frequency list: rarer than everything in it
+const UNKNOWN_RANK = ENGLISH_WORD_RANKS.size * 2;
+const MAX_IDF = Math.log(UNKNOWN_RANK + 1);
+
+// Feature bonuses on top of the 0-1 rarity score
+const FEATURE_SCORES = {
+  number: 3,
+  negation: 2,
+  superlative: 2,
+  "proper noun": 2,
+};
+
+type Feature = keyof typeof FEATURE_SCORES;
+
+// Emphasis category for each reason the scorer gives
+const REASON_CATEGORIES: Record<string, EmphasisCategory> = {
+  number: "number",
+  negation: "warning",
+  superlative: "emotion",
+  "proper noun": "key-noun",
+  "topic word": "key-noun",
+  "rare word": "key-noun",
+};
+
+// Lowercase and strip punctuation other than apostrophes, % and $
+function toKey(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}'%$]/gu, "");
+}
+
+// Frequency rank, also trying the word without common inflections
+function getRank(key: string): number {
+  for (const suffix of ["", "s", "es", "ed", "d", "ing", "ly"]) {
+    if (suffix && !key.endsWith(suffix)) continue;
+    const rank = ENGLISH_WORD_RANKS.get(key.slice(0, key.length - suffix.length));
+    if (rank !== undefined) return rank;
+  }
+  return UNKNOWN_RANK;
+}
+
+// Inverse document frequency from the word's rank, scaled to 0-1
+function rarity(key: string): number {
+  return Math.log(getRank(key) + 1) / MAX_IDF;
+}
+
+function findFeature(
+  key: string,
+  word: string,
+  sentenceStart: boolean
+): Feature | null {
+  if (/\d/.test(key) || NUMBER_WORDS.has(key)) return "number";
+  if (NEGATIONS.has(key)) return "negation";
+  if (SUPERLATIVES.has(key) || (/^[a-z]{2,}est$/.test(key) && !NOT_SUPERLATIVE.has(key))) {
+    return "superlative";
+  }
+  if (!sentenceStart && /^\p{Lu}/u.test(word.trim()) && getRank(key) === UNKNOWN_RANK) {
+    return "proper noun";
+  }
+  return null;
+}
+
+// Deterministic, offline emphasis picker. Scores numbers, negations,
+// superlatives and proper nouns, plus rare words by TF-IDF against a bundled
+// English frequency list, then keeps the top GPT_SETTINGS percentage of each
+// window.
+export class HeuristicEmphasisDetector implements EmphasisDetector {
+  name = "heuristic";
+  model = "rules-v3";
+
+  async detect(words: EmphasisCandidate[]): Promise<EmphasisWord[]> {
+    console.log("Scoring emphasis words with offline heuristics...");
+
+    const keys = words.map((w) => toKey(w.word));
+
+    // Term frequency across the remaining transcript
+    const counts = new Map<string, number>();
+    for (const key of keys) {
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+
+    const scored: { candidate: EmphasisCandidate; score: number; reason: string }[] = [];
+    const seen = new Map<string, number>();
+
+    for (let i = 0; i < words.length; i++) {
+      const key = keys[i];
+      if (!key || SKIP_WORDS.has(key) || FILLER_PATTERNS.some((p) => p.test(key))) continue;
+
+      const sentenceStart = i === 0 || /[.!?]["']?$/.test(words[i - 1].word.trim());
+      const feature = findFeature(key, words[i].word, sentenceStart);
+
+      // TF-IDF: repeated rare words are the topic; later repeats count for less
+      const tfidf = (1 + Math.log(counts.get(key) || 1)) * rarity(key);
+      const repeats = seen.get(key) || 0;
+      seen.set(key, repeats + 1);
+
+      const score = ((feature ? FEATURE_SCORES[feature] : 0) + tfidf) / (1 + repeats);
+      const reason = feature || ((counts.get(key) || 0) > 1 ? "topic word" : "rare word");
+      scored.push({ candidate: words[i], score, reason });
+    }
+
+    const scoreByIndex = new Map(scored.map((s) => [s.candidate.index, s]));
+    const selected: typeof scored = [];
+
+    // Pick per window so emphasis stays evenly spread across long videos
+    for (const window of splitEmphasisWindows(words)) {
+      const windowScores = window.core
+        .map((w) => scoreByIndex.get(w.index))
+        .filter((s): s is (typeof scored)[number] => s !== undefined);
+
+      // Highest score first; earlier words win ties
+      windowScores.sort((a, b) => b.score - a.score || a.candidate.index - b.candidate.index);
+
+      // Keep every strong word up to the max, and at least the min
+      const target = getEmphasisTarget(window.core.length);
+      const strong = windowScores.filter((s) => s.score >= 1).length;
+      const count = Math.min(Math.max(strong, target.min), target.max);
+      selected.push(...windowScores.slice(0, count));
+    }
+
+    return selected
+      .sort((a, b) => a.candidate.index - b.candidate.index)
+      .map(({ candidate, reason }) => ({
+        word: candidate.word,
+        index: candidate.index,
+        reason,
+        category: REASON_CATEGORIES[reason],
+      }));
+  }
+}
@@ -0,0 +1,29 @@
+import { EMPHASIS_SETTINGS, GPT_SETTINGS } from "../config.js";
+import { EmphasisDetector } from "../types.js";
+import { LLMEmphasisDetector } from "./llm.js";
+import { HeuristicEmphasisDetector } from "./heuristic.js";
+
+// Create the detector selected by EMPHASIS_SETTINGS.provider (or EMPHASIS_PROVIDER env var)
+export function createEmphasisDetector(provider = EMPHASIS_SETTINGS.provider): EmphasisDetector {
+  switch (provider) {
+    case "openai":
+      return new LLMEmphasisDetector({
+        name: "openai",
+        model: GPT_SETTINGS.model,
+        apiKey: process.env.OPENAI_API_KEY,
+      });
+    case "local":
+      return new LLMEmphasisDetector({
+        name: "local",
+        model: EMPHASIS_SETTINGS.local.model,
+        baseURL: EMPHASIS_SETTINGS.local.baseURL,
+        apiKey: EMPHASIS_SETTINGS.local.apiKey,
+      });
+    case "heuristic":
+      return new HeuristicEmphasisDetector();
+    default:
+      throw new Error(
+        `Unknown emphasis provider: "${provider}" (expected "openai", "local" or "heuristic")`
+      );
+  }
+}
@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { matchEmphasisWords } from "./llm.js";
+
+const core = ["This", "is", "amazing;", "\"really\"", "wow:", "fast"].map((word, i) => ({ word, index: i + 10 }));
+
+const pick = (id: number | string, word: string) => ({ id, word, reason: "test", category: "emotion" });
+
+test("matchEmphasisWords accepts picks whose word matches their ID", () => {
+  const words = matchEmphasisWords([pick(15, "fast"), pick("[12]", "amazing")], core);
+  assert.deepEqual(words, [
+    { word: "amazing;", index: 12, reason: "test", category: "emotion" },
+    { word: "fast", index: 15, reason: "test", category: "emotion" },
+  ]);
+});
+
+test("matchEmphasisWords matches words with any punctuation", () => {
+  const words = matchEmphasisWords([pick(13, "really"), pick(14, "Wow"), pick(12, "amazing!")], core);
+  assert.deepEqual(words.map((w) => w.index), [12, 13, 14]);
+});
+
+test("matchEmphasisWords rejects out-of-range IDs and words that don't match their ID", () => {
+  assert.deepEqual(matchEmphasisWords([pick(3, "amazing"), pick(99, "fast"), pick(13, "fast")], core), []);
+});
+
+test("matchEmphasisWords drops duplicate IDs and unknown categories", () => {
+  const words = matchEmphasisWords([pick(15, "fast"), { id: 15, word: "fast", reason: "again", category: "loud" }], core);
+  assert.deepEqual(words, [{ word: "fast", index: 15, reason: "test", category: "emotion" }]);
+  const [uncategorized] = matchEmphasisWords([{ id: 12, word: "amazing", reason: "test", category: "loud" }], core);
+  assert.equal(uncategorized.category, undefined);
+});
@@ -0,0 +1,228 @@
+import OpenAI from "openai";
+import { GPT_SETTINGS } from "../config.js";
+import { EmphasisCandidate, EmphasisDetector, EmphasisWord } from "../types.js";
+import { SKIP_WORDS } from "../lib/stopwords.js";
+import {
+  EmphasisWindow,
+  getEmphasisTarget,
+  isEmphasisCategory,
+  normalizeEmphasisWord,
+  splitEmphasisWindows,
+} from "./common.js";
+import { HeuristicEmphasisDetector } from "./heuristic.js";
+
+interface LLMEmphasisOptions {
+  name: string;
+  model: string;
+  // OpenAI-compatible endpoint; defaults to the OpenAI API
+  baseURL?: string;
+  apiKey?: string;
+}
+
+// Picks emphasis words with a chat model through the OpenAI API or any
+// OpenAI-compatible server (Ollama, llama.cpp server, ...)
+export class LLMEmphasisDetector implements EmphasisDetector {
+  name: string;
+  model: string;
+  baseURL?: string;
+  usedFallback = false;
+  private apiKey?: string;
+
+  constructor(options: LLMEmphasisOptions) {
+    this.name = options.name;
+    this.model = options.model;
+    this.baseURL = options.baseURL;
+    this.apiKey = options.apiKey;
+  }
+
+  async detect(words: EmphasisCandidate[]): Promise<EmphasisWord[]> {
+    this.usedFallback = false;
+    const windows = splitEmphasisWindows(words);
+    const emphasisWords: EmphasisWord[] = [];
+
+    for (let i = 0; i < windows.length; i++) {
+      if (windows.length > 1) {
+        console.log(`\nWindow ${i + 1}/${windows.length} (${windows[i].core.length} words)`);
+      }
+      emphasisWords.push(...(await this.detectWindow(windows[i])));
+    }
+
+    return emphasisWords;
+  }
+
+  private async detectWindow(window: EmphasisWindow): Promise<EmphasisWord[]> {
+    const prompt = buildPrompt(window);
+
+    console.log(`Calling ${this.model} for emphasis detection...`);
+
+    // Created per call so cached reruns don't need an API key
+    const openai = new OpenAI({
+      apiKey: this.apiKey,
+      ...(this.baseURL ? { baseURL: this.baseURL } : {}),
+    });
+
+    const response = await openai.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: "system",
+          content: "You are an expert at identifying impactful words for video captions. Always respond with valid JSON only.",
+        },
+        { role: "user", content: prompt },
+      ],
+      temperature: 0.3,
+      response_format: { type: "json_object" },
+    });
+
+    const content = response.choices[0].message.content || "{}";
+    console.log("LLM response:", content.substring(0, 500));
+
+    let parsed: Record<string, unknown>;
+
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      console.error("Failed to parse LLM response:", content);
+      console.warn("Falling back to heuristic emphasis detection for this window");
+      this.usedFallback = true;
+      return new HeuristicEmphasisDetector().detect(window.core);
+    }
+
+    const emphasisList = findEmphasisList(parsed);
+    if (emphasisList === null) {
+      console.warn("No emphasis list in LLM response, falling back to heuristic emphasis detection");
+      this.usedFallback = true;
+      return new HeuristicEmphasisDetector().detect(window.core);
+    }
+    console.log(`Found ${emphasisList.length} emphasis words from ${this.model}`);
+
+    const emphasisWords = matchEmphasisWords(emphasisList, window.core);
+    console.log(`After validation: ${emphasisWords.length} emphasis words`);
+    return emphasisWords;
+  }
+}
+
+function buildPrompt(window: EmphasisWindow): string {
+  // Each word is tagged with its transcript index so picks can be checked exactly
+  const wordList = window.words.map((w) => `[${w.index}] ${w.word}`).join(" ");
+  const target = getEmphasisTarget(window.core.length);
+  const firstId = window.core[0].index;
+  const lastId = window.core[window.core.length - 1].index;
+  const hasContext = window.words.length > window.core.length;
+
+  return `Analyze this transcript and identify the most important/impactful words that should be visually emphasized in TikTok-style captions.
+
+Rules:
+- Select ${target.min}-${target.max} words (${GPT_SETTINGS.emphasisMinPercent}-${GPT_SETTINGS.emphasisMaxPercent}% of the words you can pick from)
+- Every word is prefixed with its ID in square brackets, e.g. "[42] million"${
+    hasContext
+      ? `
+- Only pick words with IDs from ${firstId} to ${lastId}; the words around them are context only`
+      : ""
+  }
+- Choose words that are:
+  - Key nouns (main subjects, important concepts)
+  - Strong verbs (action words)
+  - Numbers or statistics
+  - Emotionally impactful words
+  - Words the speaker would naturally stress
+- Do NOT emphasize:
+  - Common words (the, a, is, are, etc.)
+  - Conjunctions (and, but, or)
+  - Prepositions (in, on, at)
+  - Pronouns (I, you, we, they) unless crucial for emphasis
+
+Transcript:
+"${wordList}"
+
+Respond with a JSON object containing a "words" array. Each item should have:
+- "id": the word's ID from the transcript (a number)
+- "word": the exact word with that ID
+- "reason": brief explanation (2-5 words)
+- "category": exactly one of:
+  - "number": numbers, statistics, amounts, prices
+  - "emotion": feelings, reactions, strong adjectives
+  - "key-noun": main subjects and important concepts
+  - "action": strong verbs
+  - "warning": negations, risks, mistakes, things to avoid
+
+Example response format:
+{
+  "words": [
+    {"id": 5, "word": "amazing", "reason": "emotional impact", "category": "emotion"},
+    {"id": 12, "word": "million", "reason": "key statistic", "category": "number"},
+    {"id": 20, "word": "never", "reason": "strong warning", "category": "warning"}
+  ]
+}`;
+}
+
+type EmphasisListItem = { id?: number | string; word: string; reason: string; category?: string };
+
+// Handle various response formats the model might return (null if there's no list)
+function findEmphasisList(parsed: Record<string, unknown>): EmphasisListItem[] | null {
+  if (!parsed || typeof parsed !== "object") return null;
+  if (Array.isArray(parsed)) {
+    return parsed;
+  } else if (parsed.words && Array.isArray(parsed.words)) {
+    return parsed.words;
+  } else if (parsed.emphasis_words && Array.isArray(parsed.emphasis_words)) {
+    return parsed.emphasis_words;
+  } else if (parsed.emphasisWords && Array.isArray(parsed.emphasisWords)) {
+    return parsed.emphasisWords;
+  }
+
+  // Try to find any array in the response
+  for (const key of Object.keys(parsed)) {
+    if (Array.isArray(parsed[key])) {
+      console.log(`Found emphasis words under key: "${key}"`);
+      return parsed[key] as EmphasisListItem[];
+    }
+  }
+  return null;
+}
+
+// Accept picks by ID, but only when the returned word matches the word with
+// that ID in the window's pickable words
+export function matchEmphasisWords(
+  emphasisList: EmphasisListItem[],
+  core: EmphasisCandidate[]
+): EmphasisWord[] {
+  const byIndex = new Map(core.map((w) => [w.index, w]));
+  const emphasisWords: EmphasisWord[] = [];
+  const usedIndices = new Set<number>();
+  let rejected = 0;
+
+  for (const item of emphasisList) {
+    if (typeof item?.word !== "string") continue;
+    const targetWord = normalizeEmphasisWord(item.word);
+
+    // Skip common words (filter out model mistakes)
+    if (SKIP_WORDS.has(targetWord)) {
+      continue;
+    }
+
+    // IDs may come back as 12, "12" or "[12]"
+    const id = parseInt(String(item.id ?? "").replace(/[^\d]/g, ""), 10);
+    const candidate = byIndex.get(id);
+    if (!candidate || normalizeEmphasisWord(candidate.word) !== targetWord) {
+      rejected++;
+      continue;
+    }
+    if (usedIndices.has(id)) continue;
+
+    usedIndices.add(id);
+    emphasisWords.push({
+      word: candidate.word,
+      index: candidate.index,
+      reason: item.reason,
+      ...(isEmphasisCategory(item.category) ? { category: item.category } : {}),
+    });
+  }
+
+  if (rejected > 0) {
+    console.warn(`Rejected ${rejected} picks with an unknown ID or a word that didn't match its ID`);
+  }
+
+  // Keep transcript order
+  return emphasisWords.sort((a, b) => a.index - b.index);
+}
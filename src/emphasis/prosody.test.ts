@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { EmphasisCandidate, EmphasisWord, WordProsody } from "../types.js";
+import { blendEmphasis } from "./prosody.js";
+
+const WORDS = [
+  "rockets", "launch", "satellites", "into", "orbit", "every", "single",
+  "week", "costing", "millions", "because", "engines", "burn", "fuel",
+  "faster", "than", "anyone", "expected", "yesterday", "morning",
+];
+const candidates: EmphasisCandidate[] = WORDS.map((word, index) => ({ word, index }));
+
+// Stress scores in candidate order, defaulting to an average 0.5
+function prosody(scores: Record<number, number>): WordProsody[] {
+  return candidates.map(({ index }) => ({
+    index,
+    loudnessDb: -20,
+    pitchHz: 150,
+    msPerChar: 80,
+    score: scores[index] ?? 0.5,
+    dominant: "loudness",
+  }));
+}
+
+function picks(...indices: number[]): EmphasisWord[] {
+  return indices.map((index) => ({ word: WORDS[index], index, reason: "detector", category: "key-noun" }));
+}
+
+const indicesOf = (words: EmphasisWord[]) => words.map((w) => w.index);
+
+test("blendEmphasis at 0 keeps the detector's picks", () => {
+  const result = blendEmphasis(picks(0, 9, 12), prosody({ 0: 0.05, 5: 0.99 }), candidates, 0);
+  assert.deepEqual(indicesOf(result), [0, 9, 12]);
+});
+
+test("blendEmphasis at 0.3 swaps a flat pick for a strongly stressed word", () => {
+  // "rockets" is the flattest word, "every" by far the most stressed
+  const scores = { 0: 0.05, 5: 0.99, 9: 0.6, 12: 0.55 };
+  const result = blendEmphasis(picks(0, 9, 12), prosody(scores), candidates, 0.3);
+
+  assert.deepEqual(indicesOf(result), [5, 9, 12]);
+  const promoted = result.find((w) => w.index === 5)!;
+  assert.equal(promoted.reason, "prosody: spoken louder");
+  assert.equal(promoted.category, undefined);
+  assert.equal(promoted.prosodyScore, 0.99);
+  assert.equal(result.find((w) => w.index === 9)!.reason, "detector");
+});
+
+test("blendEmphasis at 0.3 keeps picks of average stress", () => {
+  // Every word a little more stressed than the one before
+  const scores = Object.fromEntries(candidates.map(({ index }) => [index, 0.2 + index * 0.03]));
+  const result = blendEmphasis(picks(8, 9, 12), prosody(scores), candidates, 0.3);
+  assert.deepEqual(indicesOf(result), [8, 9, 12]);
+});
+
+test("blendEmphasis never promotes stopwords", () => {
+  const result = blendEmphasis(picks(0), prosody({ 0: 0.01, 15: 0.99 }), candidates, 0.9);
+  assert.equal(result.length, 1);
+  assert.notEqual(result[0].index, 15);
+});
+
+test("blendEmphasis at 1 picks the most stressed words", () => {
+  const result = blendEmphasis([], prosody({ 2: 0.9, 7: 0.8, 13: 0.95 }), candidates, 1, 2);
+  assert.deepEqual(indicesOf(result), [2, 13]);
+});
@@ -0,0 +1,229 @@
+import { PROSODY_SETTINGS } from "../config.js";
+import { WavAudio } from "../lib/audio.js";
+import { SKIP_WORDS } from "../lib/stopwords.js";
+import { EmphasisCandidate, EmphasisWord, WhisperWord, WordProsody } from "../types.js";
+import { normalizeEmphasisWord } from "./common.js";
+
+const PITCH_FRAME_MS = 40;
+const PITCH_HOP_MS = 20;
+// Normalized autocorrelation peak needed to call a frame voiced
+const VOICED_THRESHOLD = 0.5;
+// Frames this far below the word's loudness are ignored for pitch
+const PITCH_FLOOR_DB = 20;
+
+type Feature = WordProsody["dominant"];
+
+function toDb(value: number): number {
+  return 20 * Math.log10(Math.max(value, 1e-9));
+}
+
+function rms(samples: Int16Array, start: number, end: number): number {
+  let sum = 0;
+  for (let i = start; i < end; i++) {
+    const v = samples[i] / 32768;
+    sum += v * v;
+  }
+  return end > start ? Math.sqrt(sum / (end - start)) : 0;
+}
+
+// Pitch of one frame by normalized autocorrelation (null if unvoiced)
+function framePitch(audio: WavAudio, start: number, end: number): number | null {
+  const { samples, sampleRate } = audio;
+  const minLag = Math.floor(sampleRate / PROSODY_SETTINGS.maxPitchHz);
+  const maxLag = Math.ceil(sampleRate / PROSODY_SETTINGS.minPitchHz);
+  const length = end - start - maxLag;
+  if (length <= 0) return null;
+
+  const correlations = new Float64Array(maxLag + 1);
+  let bestCorr = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let corr = 0;
+    let energyA = 0;
+    let energyB = 0;
+    for (let i = start; i < start + length; i++) {
+      const a = samples[i];
+      const b = samples[i + lag];
+      corr += a * b;
+      energyA += a * a;
+      energyB += b * b;
+    }
+    correlations[lag] = corr / (Math.sqrt(energyA * energyB) || 1);
+    bestCorr = Math.max(bestCorr, correlations[lag]);
+  }
+  if (bestCorr < VOICED_THRESHOLD) return null;
+
+  // Multiples of the period correlate almost as well; take the first peak
+  // close to the best one to avoid octave errors
+  for (let lag = minLag + 1; lag < maxLag; lag++) {
+    const corr = correlations[lag];
+    if (corr >= 0.9 * bestCorr && corr >= correlations[lag - 1] && corr >= correlations[lag + 1]) {
+      return sampleRate / lag;
+    }
+  }
+  return null;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Robust z-score of values[i] against its neighbours (median / MAD)
+function localZScore(values: (number | null)[], i: number, context: number): number | null {
+  const value = values[i];
+  if (value === null) return null;
+
+  const neighbours: number[] = [];
+  for (let j = Math.max(0, i - context); j <= Math.min(values.length - 1, i + context); j++) {
+    const v = values[j];
+    if (v !== null) neighbours.push(v);
+  }
+  if (neighbours.length < 3) return null;
+
+  const center = median(neighbours);
+  const mad = median(neighbours.map((v) => Math.abs(v - center)));
+  const z = (value - center) / (1.4826 * mad + 1e-6);
+  return Math.max(-3, Math.min(3, z));
+}
+
+// Measure loudness, pitch and duration for each candidate word and score how
+// stressed it sounds compared to the words around it
+export function computeWordProsody(
+  audio: WavAudio,
+  words: WhisperWord[],
+  candidates: EmphasisCandidate[]
+): WordProsody[] {
+  const { sampleRate, samples } = audio;
+  const toSample = (seconds: number) =>
+    Math.min(samples.length, Math.max(0, Math.round(seconds * sampleRate)));
+
+  const frameSize = Math.round((sampleRate * PITCH_FRAME_MS) / 1000);
+  const hop = Math.round((sampleRate * PITCH_HOP_MS) / 1000);
+
+  const loudness: (number | null)[] = [];
+  const pitch: (number | null)[] = [];
+  const duration: (number | null)[] = [];
+
+  for (const candidate of candidates) {
+    const word = words[candidate.index];
+    const start = toSample(word.start);
+    const end = toSample(word.end);
+    const level = rms(samples, start, end);
+    loudness.push(end > start ? toDb(level) : null);
+
+    // Median pitch of the word's voiced frames
+    const pitches: number[] = [];
+    for (let f = start; f + frameSize <= end; f += hop) {
+      if (toDb(rms(samples, f, f + frameSize)) < toDb(level) - PITCH_FLOOR_DB) continue;
+      const hz = framePitch(audio, f, f + frameSize);
+      if (hz !== null) pitches.push(hz);
+    }
+    // Compare pitch in semitones so z-scores don't depend on the speaker's range
+    pitch.push(pitches.length > 0 ? 12 * Math.log2(median(pitches)) : null);
+
+    const letters = normalizeEmphasisWord(word.word).length || 1;
+    duration.push(end > start ? ((word.end - word.start) * 1000) / letters : null);
+  }
+
+  const { weights, contextWords } = PROSODY_SETTINGS;
+
+  return candidates.map((candidate, i) => {
+    const zScores: Record<Feature, number | null> = {
+      loudness: localZScore(loudness, i, contextWords),
+      pitch: localZScore(pitch, i, contextWords),
+      duration: localZScore(duration, i, contextWords),
+    };
+
+    let weighted = 0;
+    let totalWeight = 0;
+    let dominant: Feature = "loudness";
+    for (const feature of Object.keys(zScores) as Feature[]) {
+      const z = zScores[feature];
+      if (z === null) continue;
+      weighted += weights[feature] * z;
+      totalWeight += weights[feature];
+      const best = zScores[dominant];
+      if (best === null || weights[feature] * z > weights[dominant] * best) {
+        dominant = feature;
+      }
+    }
+
+    const combined = totalWeight > 0 ? weighted / totalWeight : 0;
+    return {
+      index: candidate.index,
+      loudnessDb: Math.round((loudness[i] ?? -120) * 10) / 10,
+      pitchHz: pitch[i] === null ? null : Math.round(Math.pow(2, (pitch[i] as number) / 12)),
+      msPerChar: Math.round(duration[i] ?? 0),
+      // Logistic squash: an average word scores 0.5
+      score: Math.round((1 / (1 + Math.exp(-2 * combined))) * 1000) / 1000,
+      dominant,
+    };
+  });
+}
+
+const DOMINANT_REASONS: Record<Feature, string> = {
+  loudness: "spoken louder",
+  pitch: "higher pitch",
+  duration: "drawn out",
+};
+
+// Rank of each score among all scores, from 0 (lowest) to 1 (highest); ties share their average rank
+function percentileRanks(scores: number[]): number[] {
+  if (scores.length < 2) return scores.map(() => 0.5);
+  const order = scores.map((score, i) => ({ score, i })).sort((a, b) => a.score - b.score);
+  const ranks = new Array<number>(scores.length);
+  for (let start = 0; start < order.length; ) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].score === order[start].score) end++;
+    for (let k = start; k <= end; k++) ranks[order[k].i] = (start + end) / 2 / (scores.length - 1);
+    start = end + 1;
+  }
+  return ranks;
+}
+
+// Blend the detector's picks with prosody and keep the same number of words (or
+// `count` when the detector wasn't used). Prosody is compared as a 0-1 rank among
+// the candidates, and picks get a head start of 1 - blend, so a word the
+// detector skipped replaces a pick when it ranks more than 1 - blend above it.
+export function blendEmphasis(
+  detected: EmphasisWord[],
+  prosody: WordProsody[],
+  candidates: EmphasisCandidate[],
+  blend: number,
+  count = detected.length
+): EmphasisWord[] {
+  const picked = new Map(detected.map((w) => [w.index, w]));
+  const prosodyByIndex = new Map(prosody.map((p) => [p.index, p]));
+
+  const eligible = candidates
+    .filter((c) => picked.has(c.index) || !SKIP_WORDS.has(normalizeEmphasisWord(c.word)))
+    .map((candidate) => {
+      const p = prosodyByIndex.get(candidate.index);
+      return { candidate, p, prosodyScore: p ? p.score : 0.5 };
+    });
+  const ranks = percentileRanks(eligible.map((e) => e.prosodyScore));
+  const scored = eligible.map((e, i) => ({
+    ...e,
+    score: ranks[i] + (picked.has(e.candidate.index) ? 1 - blend : 0),
+  }));
+
+  // Highest score first; earlier words win ties
+  scored.sort((a, b) => b.score - a.score || a.candidate.index - b.candidate.index);
+
+  return scored
+    .slice(0, count)
+    .sort((a, b) => a.candidate.index - b.candidate.index)
+    .map(({ candidate, p, prosodyScore }) => ({
+      word: candidate.word,
+      index: candidate.index,
+      reason:
+        picked.get(candidate.index)?.reason ||
+        `prosody: ${p ? DOMINANT_REASONS[p.dominant] : "stressed"}`,
+      // Audio-only picks have no category unless they're obviously numbers
+      category:
+        picked.get(candidate.index)?.category ||
+        (/\d/.test(candidate.word) ? ("number" as const) : undefined),
+      prosodyScore,
+    }));
+}
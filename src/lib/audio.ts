@@ -0,0 +1,161 @@
+import fs from "fs";
+import { execFileSync, spawnSync } from "child_process";
+import { CaptionTimingData } from "../types.js";
+
+export interface SilenceInterval {
+  start: number; // seconds
+  end: number; // seconds
+}
+
+// Get media duration in seconds using ffprobe
+export function getMediaDuration(mediaPath: string): number {
+  const output = execFileSync(
+    "ffprobe",
+    ["-v", "error", "-show_entries", "format=duration", "-of", "csv=p=0", mediaPath],
+    { encoding: "utf-8" }
+  );
+  return parseFloat(output.trim()) || 0;
+}
+
+// Duration of the first video stream in seconds (falls back to the container duration)
+export function getVideoDuration(mediaPath: string): number {
+  const output = execFileSync(
+    "ffprobe",
+    ["-v", "error", "-select_streams", "v:0", "-show_entries", "stream=duration", "-of", "csv=p=0", mediaPath],
+    { encoding: "utf-8" }
+  );
+  return parseFloat(output.trim()) || getMediaDuration(mediaPath);
+}
+
+// Size caption timing data to a cut video's real length. Returns the drift
+// from the previous estimate in frames.
+export function fitTimingToVideo(timing: CaptionTimingData, videoPath: string): number {
+  const actualFrames = Math.round(getVideoDuration(videoPath) * timing.fps);
+  const driftFrames = actualFrames - timing.totalFrames;
+
+  timing.totalFrames = actualFrames;
+  timing.durationMs = Math.round((actualFrames / timing.fps) * 1000);
+  const lastPage = timing.pages[timing.pages.length - 1];
+  if (lastPage && lastPage.endFrame > actualFrames - 1) {
+    lastPage.endFrame = Math.max(actualFrames - 1, lastPage.startFrame);
+  }
+  return driftFrames;
+}
+
+// Detect silent intervals with ffmpeg's silencedetect filter
+export function detectSilences(
+  audioPath: string,
+  noiseDb: number,
+  minDurationSeconds: number
+): SilenceInterval[] {
+  // silencedetect reports on stderr
+  const result = spawnSync(
+    "ffmpeg",
+    [
+      "-hide_banner",
+      "-nostats",
+      "-i", audioPath,
+      "-af", `silencedetect=noise=${noiseDb}dB:d=${minDurationSeconds}`,
+      "-f", "null",
+      "-",
+    ],
+    { encoding: "utf-8", maxBuffer: 64 * 1024 * 1024 }
+  );
+
+  if (result.status !== 0) {
+    throw new Error(`ffmpeg silencedetect failed: ${result.stderr}`);
+  }
+
+  const silences: SilenceInterval[] = [];
+  let currentStart: number | null = null;
+
+  for (const line of result.stderr.split("\n")) {
+    const startMatch = line.match(/silence_start: (-?[\d.]+)/);
+    if (startMatch) {
+      currentStart = Math.max(0, parseFloat(startMatch[1]));
+      continue;
+    }
+    const endMatch = line.match(/silence_end: ([\d.]+)/);
+    if (endMatch && currentStart !== null) {
+      silences.push({ start: currentStart, end: parseFloat(endMatch[1]) });
+      currentStart = null;
+    }
+  }
+
+  // Silence running to the end of the file has no silence_end line
+  if (currentStart !== null) {
+    silences.push({ start: currentStart, end: getMediaDuration(audioPath) });
+  }
+
+  return silences;
+}
+
+// Extract a time range from an audio file
+export function extractAudioRange(
+  audioPath: string,
+  outputPath: string,
+  startSeconds: number,
+  durationSeconds: number
+): void {
+  execFileSync(
+    "ffmpeg",
+    [
+      "-y",
+      "-loglevel", "error",
+      "-ss", startSeconds.toFixed(3),
+      "-t", durationSeconds.toFixed(3),
+      "-i", audioPath,
+      "-c", "copy",
+      outputPath,
+    ],
+    { stdio: "inherit" }
+  );
+}
+
+export interface WavAudio {
+  sampleRate: number;
+  // First channel as 16-bit PCM
+  samples: Int16Array;
+}
+
+// Read a 16-bit PCM WAV file (as written by extractAudio in 01-transcribe.ts)
+export function readWav(wavPath: string): WavAudio {
+  const buffer = fs.readFileSync(wavPath);
+
+  if (buffer.toString("ascii", 0, 4) !== "RIFF" || buffer.toString("ascii", 8, 12) !== "WAVE") {
+    throw new Error(`Not a WAV file: ${wavPath}`);
+  }
+
+  let sampleRate = 0;
+  let channels = 1;
+  let bitsPerSample = 0;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString("ascii", offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const chunkStart = offset + 8;
+
+    if (chunkId === "fmt ") {
+      channels = buffer.readUInt16LE(chunkStart + 2);
+      sampleRate = buffer.readUInt32LE(chunkStart + 4);
+      bitsPerSample = buffer.readUInt16LE(chunkStart + 14);
+    } else if (chunkId === "data") {
+      if (bitsPerSample !== 16) {
+        throw new Error(`Only 16-bit PCM WAV is supported (got ${bitsPerSample}-bit)`);
+      }
+      const dataSize = Math.min(chunkSize, buffer.length - chunkStart);
+      const frameCount = Math.floor(dataSize / (2 * channels));
+      const samples = new Int16Array(frameCount);
+      for (let i = 0; i < frameCount; i++) {
+        samples[i] = buffer.readInt16LE(chunkStart + i * 2 * channels);
+      }
+      return { sampleRate, samples };
+    }
+
+    // Chunks are padded to an even size
+    offset = chunkStart + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error(`No audio data found in ${wavPath}`);
+}
@@ -0,0 +1,96 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { config } from "../config.js";
+
+// Content-addressed cache for paid API results, stored as cache/<namespace>/<key>.json.
+// Entries are keyed on a hash of their inputs, so changed inputs simply miss.
+
+// Disable with --no-cache or NO_CACHE=1
+export function isCacheEnabled(): boolean {
+  return !process.argv.includes("--no-cache") && process.env.NO_CACHE !== "1";
+}
+
+// SHA-256 of a file's contents, read in chunks to handle large audio files
+export function hashFile(filePath: string): string {
+  const hash = crypto.createHash("sha256");
+  const buffer = Buffer.alloc(1024 * 1024);
+  const fd = fs.openSync(filePath, "r");
+  try {
+    let bytesRead: number;
+    while ((bytesRead = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+  } finally {
+    fs.closeSync(fd);
+  }
+  return hash.digest("hex");
+}
+
+// Hash any JSON-serializable inputs into a cache key
+export function cacheKey(...parts: unknown[]): string {
+  return crypto.createHash("sha256").update(JSON.stringify(parts)).digest("hex");
+}
+
+function entryPath(namespace: string, key: string): string {
+  return path.join(config.cacheDir, namespace, `${key}.json`);
+}
+
+export function readCache<T>(namespace: string, key: string): T | null {
+  if (!isCacheEnabled()) return null;
+
+  const filePath = entryPath(namespace, key);
+  if (!fs.existsSync(filePath)) return null;
+
+  try {
+    const value = JSON.parse(fs.readFileSync(filePath, "utf-8")) as T;
+    // Touch so pruning by age keeps recently used entries
+    const now = new Date();
+    fs.utimesSync(filePath, now, now);
+    return value;
+  } catch {
+    // Corrupt entry, treat as a miss
+    return null;
+  }
+}
+
+export function writeCache(namespace: string, key: string, value: unknown): void {
+  if (!isCacheEnabled()) return;
+
+  const filePath = entryPath(namespace, key);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(value, null, 2));
+}
+
+// Remove entries not used within maxAgeDays (or all entries)
+export function pruneCache(maxAgeDays: number | null): { removed: number; freedBytes: number } {
+  let removed = 0;
+  let freedBytes = 0;
+
+  if (!fs.existsSync(config.cacheDir)) {
+    return { removed, freedBytes };
+  }
+
+  const cutoff = maxAgeDays === null ? Infinity : Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+
+  for (const namespace of fs.readdirSync(config.cacheDir)) {
+    const namespaceDir = path.join(config.cacheDir, namespace);
+    if (!fs.statSync(namespaceDir).isDirectory()) continue;
+
+    for (const file of fs.readdirSync(namespaceDir)) {
+      const filePath = path.join(namespaceDir, file);
+      const stat = fs.statSync(filePath);
+      if (stat.mtimeMs < cutoff) {
+        fs.unlinkSync(filePath);
+        removed++;
+        freedBytes += stat.size;
+      }
+    }
+
+    if (fs.readdirSync(namespaceDir).length === 0) {
+      fs.rmdirSync(namespaceDir);
+    }
+  }
+
+  return { removed, freedBytes };
+}
@@ -0,0 +1,64 @@
+import { SpeakerTurn, WhisperWord } from "../types.js";
+
+// RTTM: SPEAKER <file> <channel> <start> <duration> <NA> <NA> <speaker> <NA> <NA>
+export function parseRttm(content: string): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+
+  for (const line of content.split("\n")) {
+    const fields = line.trim().split(/\s+/);
+    if (fields[0] !== "SPEAKER" || fields.length < 8) continue;
+
+    const start = parseFloat(fields[3]);
+    const duration = parseFloat(fields[4]);
+    if (Number.isNaN(start) || Number.isNaN(duration)) continue;
+
+    turns.push({ speaker: fields[7], start, end: start + duration });
+  }
+
+  return turns.sort((a, b) => a.start - b.start);
+}
+
+// Label each word with the speaker whose turns overlap it most,
+// falling back to the nearest turn within maxGapSeconds
+export function assignSpeakers(
+  words: WhisperWord[],
+  turns: SpeakerTurn[],
+  maxGapSeconds: number
+): WhisperWord[] {
+  return words.map((word) => {
+    const overlapBySpeaker = new Map<string, number>();
+    let nearest: { speaker: string; distance: number } | null = null;
+
+    for (const turn of turns) {
+      const overlap = Math.min(word.end, turn.end) - Math.max(word.start, turn.start);
+      if (overlap > 0) {
+        overlapBySpeaker.set(turn.speaker, (overlapBySpeaker.get(turn.speaker) || 0) + overlap);
+      } else {
+        const distance = -overlap;
+        if (!nearest || distance < nearest.distance) {
+          nearest = { speaker: turn.speaker, distance };
+        }
+      }
+    }
+
+    let speaker: string | undefined;
+    if (overlapBySpeaker.size > 0) {
+      speaker = [...overlapBySpeaker.entries()].sort((a, b) => b[1] - a[1])[0][0];
+    } else if (nearest && nearest.distance <= maxGapSeconds) {
+      speaker = nearest.speaker;
+    }
+
+    return speaker ? { ...word, speaker } : { ...word };
+  });
+}
+
+// Speaker labels in order of first appearance
+export function listSpeakers(words: { speaker?: string }[]): string[] {
+  const speakers: string[] = [];
+  for (const word of words) {
+    if (word.speaker && !speakers.includes(word.speaker)) {
+      speakers.push(word.speaker);
+    }
+  }
+  return speakers;
+}
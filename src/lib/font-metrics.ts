@@ -0,0 +1,126 @@
+import fs from "fs";
+
+// Advance widths from a TrueType/OpenType font file, enough to measure a line
+// of caption text. Kerning is ignored, which slightly overestimates widths.
+export interface FontMetrics {
+  unitsPerEm: number;
+  // Advance width of a character in font units
+  advance(codePoint: number): number;
+}
+
+function readTables(data: Buffer): Map<string, number> {
+  const tag = data.toString("latin1", 0, 4);
+  if (tag === "wOFF" || tag === "wOF2") {
+    throw new Error("WOFF fonts aren't supported, use the .ttf or .otf file");
+  }
+  if (tag === "ttcf") {
+    throw new Error("Font collections (.ttc) aren't supported, use a single .ttf or .otf file");
+  }
+
+  const tables = new Map<string, number>();
+  const numTables = data.readUInt16BE(4);
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    tables.set(data.toString("latin1", record, record + 4), data.readUInt32BE(record + 8));
+  }
+  return tables;
+}
+
+// Character to glyph mapping from a format 4 (BMP) or format 12 (full Unicode) cmap subtable
+function readCharMap(data: Buffer, cmap: number): Map<number, number> {
+  const glyphs = new Map<number, number>();
+  const numSubtables = data.readUInt16BE(cmap + 2);
+
+  // Prefer the full Unicode table, then the BMP one
+  let best: { offset: number; format: number } | null = null;
+  for (let i = 0; i < numSubtables; i++) {
+    const record = cmap + 4 + i * 8;
+    const platform = data.readUInt16BE(record);
+    const encoding = data.readUInt16BE(record + 2);
+    const offset = cmap + data.readUInt32BE(record + 4);
+    const format = data.readUInt16BE(offset);
+    const unicode = platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10));
+    if (!unicode || (format !== 4 && format !== 12)) continue;
+    if (!best || format > best.format) best = { offset, format };
+  }
+  if (!best) throw new Error("Font has no Unicode character map");
+
+  const { offset } = best;
+  if (best.format === 12) {
+    const groups = data.readUInt32BE(offset + 12);
+    for (let i = 0; i < groups; i++) {
+      const group = offset + 16 + i * 12;
+      const start = data.readUInt32BE(group);
+      const end = data.readUInt32BE(group + 4);
+      const glyph = data.readUInt32BE(group + 8);
+      for (let c = start; c <= end && c - start < 0x10000; c++) glyphs.set(c, glyph + c - start);
+    }
+    return glyphs;
+  }
+
+  const segCount = data.readUInt16BE(offset + 6) / 2;
+  const endCodes = offset + 14;
+  const startCodes = endCodes + segCount * 2 + 2;
+  const idDeltas = startCodes + segCount * 2;
+  const idRangeOffsets = idDeltas + segCount * 2;
+  for (let i = 0; i < segCount; i++) {
+    const end = data.readUInt16BE(endCodes + i * 2);
+    const start = data.readUInt16BE(startCodes + i * 2);
+    const delta = data.readInt16BE(idDeltas + i * 2);
+    const rangeOffset = data.readUInt16BE(idRangeOffsets + i * 2);
+    for (let c = start; c <= end && c !== 0xffff; c++) {
+      let glyph: number;
+      if (rangeOffset === 0) {
+        glyph = (c + delta) & 0xffff;
+      } else {
+        const glyphAddress = idRangeOffsets + i * 2 + rangeOffset + (c - start) * 2;
+        glyph = data.readUInt16BE(glyphAddress);
+        if (glyph !== 0) glyph = (glyph + delta) & 0xffff;
+      }
+      if (glyph !== 0) glyphs.set(c, glyph);
+    }
+  }
+  return glyphs;
+}
+
+export function loadFontMetrics(filePath: string): FontMetrics {
+  const data = fs.readFileSync(filePath);
+  const tables = readTables(data);
+  const head = tables.get("head");
+  const hhea = tables.get("hhea");
+  const hmtx = tables.get("hmtx");
+  const cmap = tables.get("cmap");
+  if (head === undefined || hhea === undefined || hmtx === undefined || cmap === undefined) {
+    throw new Error(`Not a usable TrueType/OpenType font: ${filePath}`);
+  }
+
+  const unitsPerEm = data.readUInt16BE(head + 18);
+  const numberOfHMetrics = data.readUInt16BE(hhea + 34);
+  const glyphs = readCharMap(data, cmap);
+
+  // Glyphs past numberOfHMetrics share the last advance width
+  const advanceOfGlyph = (glyph: number) =>
+    data.readUInt16BE(hmtx + Math.min(glyph, numberOfHMetrics - 1) * 4);
+
+  return {
+    unitsPerEm,
+    // Missing characters use the .notdef glyph (0)
+    advance: (codePoint) => advanceOfGlyph(glyphs.get(codePoint) ?? 0),
+  };
+}
+
+// Width of a string in pixels at the given font size, with CSS letter-spacing in em
+export function measureText(
+  text: string,
+  metrics: FontMetrics,
+  fontSize: number,
+  letterSpacingEm = 0
+): number {
+  let units = 0;
+  let chars = 0;
+  for (const char of text) {
+    units += metrics.advance(char.codePointAt(0)!);
+    chars++;
+  }
+  return (units / metrics.unitsPerEm) * fontSize + chars * letterSpacingEm * fontSize;
+}
@@ -0,0 +1,78 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { WhisperSegment, WhisperTranscription, WhisperWord } from "../types.js";
+import { applyCorrectionsToText, applyGlossary, Glossary } from "./glossary.js";
+
+const glossary: Glossary = {
+  terms: ["CaptionsPlease"],
+  corrections: { "remote ion": "Remotion" },
+};
+
+function segment(id: number, start: number, end: number, text: string): WhisperSegment {
+  return {
+    id,
+    seek: 0,
+    start,
+    end,
+    text,
+    tokens: [],
+    temperature: 0,
+    avg_logprob: 0,
+    compression_ratio: 0,
+    no_speech_prob: 0,
+  };
+}
+
+// OpenAI-style words: no punctuation, one per half second
+const words: WhisperWord[] = ["try", "captions", "please", "with", "remote", "ion", "today", "in", "texas"].map(
+  (word, i) => ({ word, start: i * 0.5, end: i * 0.5 + 0.4 })
+);
+
+const transcription: WhisperTranscription = {
+  task: "transcribe",
+  language: "en",
+  duration: 5,
+  text: "Try captions, please. With remote ion today in Texas.",
+  words,
+  segments: [segment(0, 0, 1.5, " Try captions, please."), segment(1, 1.5, 4.5, " With remote ion today in Texas.")],
+};
+
+test("applyGlossary corrects split terms and phrase corrections in the words", () => {
+  const { words: corrected, corrections } = applyGlossary(words, glossary);
+  assert.deepEqual(
+    corrected.map((w) => w.word),
+    ["try", "CaptionsPlease", "with", "Remotion", "today", "in", "texas"]
+  );
+  assert.deepEqual(corrected[1], { word: "CaptionsPlease", start: 0.5, end: 1.4 });
+  assert.deepEqual(
+    corrections.map((c) => [c.original, c.corrected, c.correctedIndex]),
+    [["captions please", "CaptionsPlease", 1], ["remote ion", "Remotion", 3]]
+  );
+});
+
+test("applyCorrectionsToText corrects the full text and the matching segments", () => {
+  const { words: corrected, corrections } = applyGlossary(words, glossary);
+  const result = applyCorrectionsToText({ ...transcription, words: corrected }, corrections);
+  assert.equal(result.text, "Try CaptionsPlease. With Remotion today in Texas.");
+  assert.deepEqual(
+    result.segments.map((s) => s.text),
+    [" Try CaptionsPlease.", " With Remotion today in Texas."]
+  );
+  assert.equal(result.words, corrected);
+});
+
+test("applyCorrectionsToText keeps punctuation the words carry", () => {
+  const local = [{ word: " (remote", start: 0, end: 0.4 }, { word: " ion),", start: 0.5, end: 0.9 }];
+  const { words: corrected, corrections } = applyGlossary(local, glossary);
+  assert.deepEqual(corrected.map((w) => w.word), [" (Remotion),"]);
+  const result = applyCorrectionsToText(
+    { ...transcription, text: " (remote ion), hi", segments: [segment(0, 0, 1, " (remote ion), hi")], words: corrected },
+    corrections
+  );
+  assert.equal(result.text, " (Remotion), hi");
+  assert.equal(result.segments[0].text, " (Remotion), hi");
+});
+
+test("applyCorrectionsToText leaves text alone without corrections", () => {
+  assert.equal(applyCorrectionsToText(transcription, []), transcription);
+});
@@ -0,0 +1,226 @@
+import fs from "fs";
+import path from "path";
+import { config } from "../config.js";
+import { GlossaryCorrection, WhisperTranscription, WhisperWord } from "../types.js";
+import { distributeWordTimings } from "./word-timing.js";
+
+// Glossary file format:
+// {
+//   "terms": ["CaptionsPlease", "Remotion"],
+//   "corrections": { "captions please": "CaptionsPlease", "remote ion": "Remotion" }
+// }
+export interface Glossary {
+  terms: string[];
+  corrections: Record<string, string>;
+}
+
+interface CorrectionRule {
+  from: string[]; // normalized source tokens
+  to: string[]; // replacement words
+  rule: string; // human-readable description for the corrections report
+}
+
+const projectRoot = path.resolve(config.inputDir, "..");
+
+// Global glossary applies to every project; input/glossary.json adds per-project entries
+export const GLOBAL_GLOSSARY_PATH = path.join(projectRoot, "glossary.json");
+export const PROJECT_GLOSSARY_PATH = path.join(config.inputDir, "glossary.json");
+
+export function loadGlossary(): { glossary: Glossary; files: string[] } {
+  const glossary: Glossary = { terms: [], corrections: {} };
+  const files: string[] = [];
+
+  for (const filePath of [GLOBAL_GLOSSARY_PATH, PROJECT_GLOSSARY_PATH]) {
+    if (!fs.existsSync(filePath)) continue;
+
+    const data: Partial<Glossary> = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    glossary.terms.push(...(data.terms || []));
+    Object.assign(glossary.corrections, data.corrections || {});
+    files.push(filePath);
+  }
+
+  glossary.terms = [...new Set(glossary.terms)];
+  return { glossary, files };
+}
+
+// Prompt hint for the transcriber. Whisper only reads the last ~224 tokens of a prompt.
+export function buildGlossaryPrompt(glossary: Glossary): string {
+  const vocabulary = [...new Set([...glossary.terms, ...Object.values(glossary.corrections)])];
+  if (vocabulary.length === 0) return "";
+
+  let prompt = `Glossary: ${vocabulary.join(", ")}.`;
+  if (prompt.length > 800) {
+    prompt = prompt.slice(0, 800).replace(/,[^,]*$/, ".");
+  }
+  return prompt;
+}
+
+function normalizeToken(token: string): string {
+  return token.toLowerCase().replace(/[^\p{L}\p{N}']/gu, "");
+}
+
+function tokenize(text: string): string[] {
+  return text.split(/\s+/).map(normalizeToken).filter(Boolean);
+}
+
+// "CaptionsPlease" -> "captions please", "GPT-4o" -> "gpt 4o"
+function splitTerm(term: string): string[] {
+  return term
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/[-_]/g, " ")
+    .split(/\s+/)
+    .map(normalizeToken)
+    .filter(Boolean);
+}
+
+function buildRules(glossary: Glossary): CorrectionRule[] {
+  const rules: CorrectionRule[] = [];
+
+  for (const [from, to] of Object.entries(glossary.corrections)) {
+    rules.push({ from: tokenize(from), to: to.split(/\s+/), rule: `"${from}" -> "${to}"` });
+  }
+
+  for (const term of glossary.terms) {
+    const to = term.split(/\s+/);
+    // Exact spelling with any casing, and the term split at case/hyphen boundaries
+    rules.push({ from: tokenize(term), to, rule: `term "${term}"` });
+    const split = splitTerm(term);
+    if (split.join(" ") !== tokenize(term).join(" ")) {
+      rules.push({ from: split, to, rule: `term "${term}" (split)` });
+    }
+    // Multi-word terms transcribed as one run-together word
+    if (to.length > 1) {
+      rules.push({ from: [tokenize(term).join("")], to, rule: `term "${term}" (joined)` });
+    }
+  }
+
+  // Longest match first so "captions please" wins over "captions"
+  return rules
+    .filter((r) => r.from.length > 0 && r.to.length > 0)
+    .sort((a, b) => b.from.length - a.from.length);
+}
+
+function matchesAt(words: WhisperWord[], index: number, from: string[]): boolean {
+  if (index + from.length > words.length) return false;
+  return from.every((token, offset) => normalizeToken(words[index + offset].word) === token);
+}
+
+// Replace glossary matches in the word list. Merged or split words share the original
+// time span, redistributed by character length.
+export function applyGlossary(
+  words: WhisperWord[],
+  glossary: Glossary
+): { words: WhisperWord[]; corrections: GlossaryCorrection[] } {
+  const rules = buildRules(glossary);
+  const corrected: WhisperWord[] = [];
+  const corrections: GlossaryCorrection[] = [];
+
+  let i = 0;
+  while (i < words.length) {
+    const rule = rules.find((r) => matchesAt(words, i, r.from));
+    if (!rule) {
+      corrected.push(words[i]);
+      i++;
+      continue;
+    }
+
+    const source = words.slice(i, i + rule.from.length);
+    const first = source[0];
+    const last = source[source.length - 1];
+
+    // Keep punctuation around the matched span ("(captions please," -> "(CaptionsPlease,")
+    const leading = first.word.match(/^[^\p{L}\p{N}]*/u)?.[0] || "";
+    const trailing = last.word.match(/[^\p{L}\p{N}]*$/u)?.[0] || "";
+    const replacement = rule.to.map((w, k) => {
+      let text = w;
+      if (k === 0) text = leading + text;
+      if (k === rule.to.length - 1) text = text + trailing;
+      return text;
+    });
+
+    const original = source.map((w) => w.word).join(" ");
+    if (original === replacement.join(" ")) {
+      corrected.push(...source);
+    } else {
+      const replaced =
+        replacement.length === source.length
+          ? source.map((w, k) => ({ ...w, word: replacement[k] }))
+          : distributeWordTimings(replacement, first.start, last.end);
+
+      corrected.push(...replaced);
+      corrections.push({
+        index: i,
+        correctedIndex: corrected.length - replaced.length,
+        original,
+        corrected: replacement.join(" "),
+        startMs: Math.round(first.start * 1000),
+        endMs: Math.round(last.end * 1000),
+        rule: rule.rule,
+      });
+    }
+
+    i += rule.from.length;
+  }
+
+  return { words: corrected, corrections };
+}
+
+// Letters and digits only at the ends: "(captions," -> "captions"
+function trimPunctuation(text: string): string {
+  return text.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "");
+}
+
+// The corrected words without the punctuation applyGlossary kept from the original
+function correctedCore(correction: GlossaryCorrection): string {
+  const leading = correction.original.match(/^[^\p{L}\p{N}]*/u)?.[0].length || 0;
+  const trailing = correction.original.match(/[^\p{L}\p{N}]*$/u)?.[0].length || 0;
+  return correction.corrected.slice(leading, correction.corrected.length - trailing);
+}
+
+// Apply corrections to running text, in order. The original words are matched
+// as whole words ignoring case and the punctuation between them; corrections
+// that can't be found are left out.
+function correctText(text: string, corrections: GlossaryCorrection[]): string {
+  let result = "";
+  let rest = text;
+  for (const correction of corrections) {
+    const tokens = correction.original.split(/\s+/).map(trimPunctuation).filter(Boolean);
+    if (tokens.length === 0) continue;
+    const escaped = tokens.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])${escaped.join("[^\\p{L}\\p{N}]+")}(?![\\p{L}\\p{N}])`,
+      "iu"
+    );
+    const match = pattern.exec(rest);
+    if (!match) continue;
+    result += rest.slice(0, match.index) + correctedCore(correction);
+    rest = rest.slice(match.index + match[0].length);
+  }
+  return result + rest;
+}
+
+// Carry word corrections over to the transcript text and to the segments they
+// fall in, so detectors that read segment text see the corrected words too
+export function applyCorrectionsToText(
+  transcription: WhisperTranscription,
+  corrections: GlossaryCorrection[]
+): WhisperTranscription {
+  if (corrections.length === 0) return transcription;
+
+  const segments = transcription.segments || [];
+  const bySegment = segments.map(() => [] as GlossaryCorrection[]);
+  for (const correction of corrections) {
+    // The last segment starting at or before the corrected words
+    let k = -1;
+    while (k + 1 < segments.length && Math.round(segments[k + 1].start * 1000) <= correction.startMs) k++;
+    bySegment[Math.max(k, 0)]?.push(correction);
+  }
+
+  return {
+    ...transcription,
+    text: correctText(transcription.text, corrections),
+    segments: segments.map((segment, k) =>
+      bySegment[k].length > 0 ? { ...segment, text: correctText(segment.text, bySegment[k]) } : segment
+    ),
+  };
+}
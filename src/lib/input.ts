@@ -0,0 +1,40 @@
+import fs from "fs";
+import path from "path";
+import { config } from "../config.js";
+
+export const VIDEO_EXTENSIONS = [".mp4", ".mov", ".webm", ".mkv"];
+
+// Find the first file in the input directory with one of the given extensions
+export function findInputFile(
+  extensions: string[],
+  description: string,
+  exclude: string[] = []
+): string {
+  const files = fs.existsSync(config.inputDir) ? fs.readdirSync(config.inputDir) : [];
+  const matches = files.filter(
+    (f) => extensions.includes(path.extname(f).toLowerCase()) && !exclude.includes(f)
+  );
+
+  if (matches.length === 0) {
+    throw new Error(`No ${description} files found in ${config.inputDir}`);
+  }
+
+  // Use the first file found
+  const inputFile = matches[0];
+  console.log(`Found input ${description}: ${inputFile}`);
+  return path.join(config.inputDir, inputFile);
+}
+
+export function findInputVideo(): string {
+  return findInputFile(VIDEO_EXTENSIONS, "video");
+}
+
+// Path of the 16 kHz mono WAV that 01-transcribe.ts extracts from a video
+export function getExtractedAudioPath(videoPath: string): string {
+  return path.join(config.tempDir, `${path.basename(videoPath, path.extname(videoPath))}.wav`);
+}
+
+// Path of the cut video that 05-cut-video.ts writes for an input video
+export function getCutVideoPath(videoPath: string): string {
+  return path.join(config.tempDir, `${path.basename(videoPath, path.extname(videoPath))}_cut.mp4`);
+}
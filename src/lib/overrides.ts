@@ -0,0 +1,63 @@
+import fs from "fs";
+import path from "path";
+import { config } from "../config.js";
+import { CaptionTimingData, EmphasisOverrides, ManualOverrides } from "../types.js";
+
+// Manual edits from the UI (or by hand). Steps 3 and 4 never write this file.
+export const OVERRIDES_PATH = path.join(config.dataDir, "04_overrides.json");
+
+export function readOverrides(): ManualOverrides | null {
+  if (!fs.existsSync(OVERRIDES_PATH)) return null;
+
+  const data: Partial<ManualOverrides> = JSON.parse(fs.readFileSync(OVERRIDES_PATH, "utf-8"));
+  return {
+    ...data,
+    emphasis: {
+      forcedOn: data.emphasis?.forcedOn || [],
+      forcedOff: data.emphasis?.forcedOff || [],
+    },
+  };
+}
+
+export function writeOverrides(overrides: ManualOverrides): void {
+  fs.writeFileSync(OVERRIDES_PATH, JSON.stringify(overrides, null, 2));
+}
+
+// Projects from before the overrides file kept their edits in the timing data
+export function overridesFromTiming(timing: Partial<CaptionTimingData>): ManualOverrides {
+  return {
+    emphasis: timing.emphasisOverrides || { forcedOn: [], forcedOff: [] },
+    ...(timing.position ? { position: timing.position } : {}),
+    ...(timing.positionKeyframes?.length ? { positionKeyframes: timing.positionKeyframes } : {}),
+    ...(timing.speakerPositions ? { speakerPositions: timing.speakerPositions } : {}),
+    ...(timing.textEdits?.length ? { text: timing.textEdits } : {}),
+  };
+}
+
+// Forced off wins if a word is in both lists
+export function resolveEmphasis(
+  index: number,
+  detected: boolean,
+  overrides: EmphasisOverrides
+): boolean {
+  if (overrides.forcedOff.includes(index)) return false;
+  if (overrides.forcedOn.includes(index)) return true;
+  return detected;
+}
+
+// Re-apply emphasis overrides to existing timing data, given the detector's picks
+export function applyEmphasisOverrides(
+  timing: CaptionTimingData,
+  detectedIndices: Set<number>,
+  overrides: EmphasisOverrides
+): void {
+  const apply = <T extends { originalIndex: number; isEmphasis: boolean }>(word: T) => {
+    word.isEmphasis = resolveEmphasis(word.originalIndex, detectedIndices.has(word.originalIndex), overrides);
+  };
+  timing.allWords.forEach(apply);
+  timing.pages.forEach((page) => {
+    page.words.forEach(apply);
+    page.lines?.forEach((line) => line.forEach(apply));
+  });
+  timing.emphasisOverrides = overrides;
+}
@@ -0,0 +1,122 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CaptionPage, CaptionWord } from "../types.js";
+import { captionLineStyle, captionWordStyle } from "../remotion/styles.js";
+import {
+  applyPageTiming,
+  balanceLines,
+  createLineLayout,
+  measureCaptionWord,
+  paginateWords,
+  WORD_GAP_PX,
+  WORD_MARGIN_EM,
+} from "./pagination.js";
+
+const FPS = 30;
+
+function word(text: string, startMs: number, endMs: number, speaker?: string): CaptionWord {
+  return {
+    word: text,
+    startMs,
+    endMs,
+    startFrame: Math.round((startMs / 1000) * FPS),
+    endFrame: Math.round((endMs / 1000) * FPS),
+    isEmphasis: false,
+    originalIndex: 0,
+    ...(speaker ? { speaker } : {}),
+  };
+}
+
+// Words spoken back to back, 300ms each, from startMs
+function phrase(text: string, startMs: number, speaker?: string): CaptionWord[] {
+  return text.split(" ").map((w, i) => word(w, startMs + i * 300, startMs + i * 300 + 280, speaker));
+}
+
+const texts = (pages: CaptionWord[][]) => pages.map((page) => page.map((w) => w.word).join(" "));
+
+const { layout } = createLineLayout();
+
+test("paginateWords breaks at a long pause even on a short page", () => {
+  const words = [word("Hi.", 0, 300), ...phrase("Today we talk", 2300)];
+  assert.deepEqual(texts(paginateWords(words, layout)), ["Hi.", "Today we talk"]);
+});
+
+test("paginateWords waits for minPageMs before breaking at a sentence end", () => {
+  const words = phrase("Yes. So that works. And then", 0);
+  assert.deepEqual(texts(paginateWords(words, layout)), ["Yes. So that works.", "And then"]);
+});
+
+test("paginateWords breaks before a page would need too many lines", () => {
+  const words = phrase("the quick brown fox jumps over the lazy dog again and again", 0);
+  const pages = paginateWords(words, layout);
+  assert.ok(pages.length > 1);
+  for (const page of pages) assert.ok(layout(page), `"${texts([page])}" doesn't fit`);
+  assert.equal(pages.flat().length, words.length);
+});
+
+test("paginateWords never mixes speakers on a page", () => {
+  const words = [...phrase("are you there", 0, "A"), ...phrase("yes I am", 900, "B")];
+  assert.deepEqual(texts(paginateWords(words, layout)), ["are you there", "yes I am"]);
+});
+
+test("balanceLines keeps the widest line as narrow as possible", () => {
+  const words = phrase("a bb ccc dddd eeeee", 0);
+  const { lines, widest } = balanceLines(words, [1, 2, 3, 4, 5], 1, 2);
+  // "a bb ccc" (8) over "dddd eeeee" (10) beats "a bb ccc dddd" (13) over "eeeee"
+  assert.deepEqual(texts(lines), ["a bb ccc", "dddd eeeee"]);
+  assert.equal(widest, 10);
+});
+
+test("balanceLines puts more words on the top line on ties", () => {
+  const words = phrase("one two three", 0);
+  const { lines } = balanceLines(words, [3, 3, 3], 0, 2);
+  assert.deepEqual(texts(lines), ["one two", "three"]);
+});
+
+test("createLineLayout uses the fewest lines that fit", () => {
+  assert.deepEqual(texts(layout(phrase("short line", 0))!), ["short line"]);
+  assert.deepEqual(texts(layout(phrase("a somewhat longer caption", 0))!), ["a somewhat", "longer caption"]);
+  assert.equal(layout(phrase("far too many words to fit on two short lines", 0)), null);
+});
+
+// A one-word page spoken from startFrame to endFrame
+function page(startFrame: number, endFrame: number): CaptionPage {
+  const w = word("word", (startFrame / FPS) * 1000, (endFrame / FPS) * 1000);
+  return { words: [w], startFrame: w.startFrame, endFrame: w.endFrame };
+}
+
+const frames = (pages: CaptionPage[]) => pages.map((p) => [p.startFrame, p.endFrame]);
+
+// Defaults at 30fps: lead-in 3 frames, linger 6, minimum display 24, gap fill 18
+test("measureCaptionWord counts the same spacing the captions render with", () => {
+  assert.equal(captionLineStyle.gap, `${WORD_GAP_PX}px`);
+  assert.equal(captionWordStyle.marginRight, `${WORD_MARGIN_EM}em`);
+
+  // Every character is half an em wide, plus 0.02em letter spacing
+  const metrics = { unitsPerEm: 1000, advance: () => 500 };
+  assert.equal(measureCaptionWord("hi", metrics, 100), 2 * (50 + 2) + 25);
+});
+
+test("applyPageTiming leads in, lingers and holds short pages for minDisplayMs", () => {
+  const pages = [page(30, 40)];
+  applyPageTiming(pages, FPS, 300);
+  assert.deepEqual(frames(pages), [[27, 51]]);
+});
+
+test("applyPageTiming bridges short gaps and leaves long ones empty", () => {
+  const pages = [page(30, 40), page(60, 80), page(150, 160)];
+  applyPageTiming(pages, FPS, 300);
+  assert.deepEqual(frames(pages), [[27, 56], [57, 86], [147, 171]]);
+});
+
+test("applyPageTiming never overlaps pages or hides a page's own words", () => {
+  const pages = [page(30, 40), page(41, 50)];
+  applyPageTiming(pages, FPS, 300);
+  assert.deepEqual(frames(pages), [[27, 40], [41, 65]]);
+});
+
+test("applyPageTiming keeps the last page inside the video", () => {
+  const pages = [page(280, 295)];
+  applyPageTiming(pages, FPS, 300);
+  assert.deepEqual(frames(pages), [[277, 299]]);
+});
@@ -0,0 +1,214 @@
+import fs from "fs";
+import { config, CAPTION_STYLES, PAGE_TIMING_SETTINGS, PAGINATION_SETTINGS } from "../config.js";
+import { CaptionPage, CaptionWord } from "../types.js";
+import { FontMetrics, loadFontMetrics, measureText } from "./font-metrics.js";
+
+// Caption look from src/remotion/styles.ts (words are uppercased there): the
+// row's flex gap between words, plus a right margin on every word
+export const WORD_GAP_PX = 8;
+export const WORD_MARGIN_EM = 0.25;
+const LETTER_SPACING_EM = 0.02;
+
+const SENTENCE_END = /[.!?…]["'”’)]*$/;
+
+// Lays words out in up to maxLines balanced lines, or null if they don't fit
+export type LineLayout = (words: CaptionWord[]) => CaptionWord[][] | null;
+
+// Split words into `count` lines so the widest line is as narrow as possible
+export function balanceLines(
+  words: CaptionWord[],
+  widths: number[],
+  gap: number,
+  count: number
+): { lines: CaptionWord[][]; widest: number } {
+  const n = words.length;
+  const prefix = [0];
+  for (const width of widths) prefix.push(prefix[prefix.length - 1] + width);
+  const lineWidth = (from: number, to: number) => prefix[to] - prefix[from] + gap * (to - from - 1);
+
+  // best[k][i]: narrowest widest line for the first i words in k lines
+  const best: number[][] = [[0, ...Array(n).fill(Infinity)]];
+  const splitAt: number[][] = [[]];
+  for (let k = 1; k <= count; k++) {
+    best.push(Array(n + 1).fill(Infinity));
+    splitAt.push(Array(n + 1).fill(0));
+    for (let i = k; i <= n; i++) {
+      for (let p = k - 1; p < i; p++) {
+        const widest = Math.max(best[k - 1][p], lineWidth(p, i));
+        // Prefer longer earlier lines on ties
+        if (widest < best[k][i] || (widest === best[k][i] && p > splitAt[k][i])) {
+          best[k][i] = widest;
+          splitAt[k][i] = p;
+        }
+      }
+    }
+  }
+
+  const lines: CaptionWord[][] = [];
+  for (let k = count, i = n; k > 0; k--) {
+    const p = splitAt[k][i];
+    lines.unshift(words.slice(p, i));
+    i = p;
+  }
+  return { lines, widest: best[count][n] };
+}
+
+// Rendered width of a caption word in pixels, including its right margin
+export function measureCaptionWord(word: string, metrics: FontMetrics, fontSize: number): number {
+  return measureText(word.toUpperCase(), metrics, fontSize, LETTER_SPACING_EM) + WORD_MARGIN_EM * fontSize;
+}
+
+// Line width limit: measured in pixels when a font file is set, in characters otherwise
+export function createLineLayout(): {
+  layout: LineLayout;
+  // Best layout even when the words don't fit (fixed pages, overlong words)
+  forceLayout: (words: CaptionWord[]) => CaptionWord[][];
+  description: string;
+} {
+  const { fontFile, maxWidthPercent, maxChars, maxLines } = PAGINATION_SETTINGS;
+
+  let measure: (word: string) => number;
+  let gap: number;
+  let maxWidth: number;
+  let description: string;
+
+  if (fontFile) {
+    if (!fs.existsSync(fontFile)) {
+      throw new Error(`Caption font file not found: ${fontFile}`);
+    }
+    const metrics = loadFontMetrics(fontFile);
+    const widths = new Map<string, number>();
+    measure = (word) => {
+      let width = widths.get(word);
+      if (width === undefined) {
+        width = measureCaptionWord(word, metrics, CAPTION_STYLES.fontSize);
+        widths.set(word, width);
+      }
+      return width;
+    };
+    gap = WORD_GAP_PX;
+    maxWidth = (config.width * maxWidthPercent) / 100;
+    description = `${Math.round(maxWidth)}px at ${CAPTION_STYLES.fontSize}px`;
+  } else {
+    measure = (word) => word.length;
+    gap = 1;
+    maxWidth = maxChars;
+    description = `${maxChars} characters`;
+  }
+
+  const layoutIn = (words: CaptionWord[], count: number) =>
+    balanceLines(words, words.map((w) => measure(w.word.trim())), gap, count);
+
+  const layout: LineLayout = (words) => {
+    for (let count = 1; count <= Math.min(maxLines, words.length); count++) {
+      const { lines, widest } = layoutIn(words, count);
+      if (widest <= maxWidth) return lines;
+    }
+    return null;
+  };
+
+  return {
+    layout,
+    forceLayout: (words) => layout(words) || layoutIn(words, Math.min(maxLines, words.length)).lines,
+    description: `${maxLines} ${maxLines === 1 ? "line" : "lines"} of ${description}`,
+  };
+}
+
+// Fixed-size pages, as before smart paging
+function paginateFixed(words: CaptionWord[]): CaptionWord[][] {
+  const pages: CaptionWord[][] = [];
+  let page: CaptionWord[] = [];
+
+  for (const word of words) {
+    if (page.length > 0 && word.speaker !== page[0].speaker) {
+      pages.push(page);
+      page = [];
+    }
+    page.push(word);
+    if (page.length >= CAPTION_STYLES.wordsPerPage) {
+      pages.push(page);
+      page = [];
+    }
+  }
+  if (page.length > 0) pages.push(page);
+
+  return pages;
+}
+
+// Greedy pages that end at every pause, at sentence ends once they've been up
+// for minPageMs, and always before they'd need more than maxLines lines or mix
+// speakers. Short pages stay readable through PAGE_TIMING_SETTINGS.minDisplayMs.
+function paginateSmart(words: CaptionWord[], layout: LineLayout): CaptionWord[][] {
+  const { breakOnPauseMs, minPageMs } = PAGINATION_SETTINGS;
+  const pages: CaptionWord[][] = [];
+  let page: CaptionWord[] = [];
+
+  for (const word of words) {
+    if (page.length > 0) {
+      const last = page[page.length - 1];
+      const pause = word.startMs - last.endMs >= breakOnPauseMs;
+      const sentenceEnd =
+        SENTENCE_END.test(last.word.trim()) && last.endMs - page[0].startMs >= minPageMs;
+
+      if (
+        word.speaker !== page[0].speaker ||
+        pause ||
+        sentenceEnd ||
+        !layout([...page, word])
+      ) {
+        pages.push(page);
+        page = [];
+      }
+    }
+    page.push(word);
+  }
+  if (page.length > 0) pages.push(page);
+
+  return pages;
+}
+
+// Group caption words into pages with the configured strategy.
+// A single word always gets a page, even if it's too wide on its own.
+export function paginateWords(words: CaptionWord[], layout: LineLayout): CaptionWord[][] {
+  switch (PAGINATION_SETTINGS.strategy) {
+    case "fixed":
+      return paginateFixed(words);
+    case "smart":
+      return paginateSmart(words, layout);
+    default:
+      throw new Error(`Unknown pagination strategy: ${PAGINATION_SETTINGS.strategy}`);
+  }
+}
+
+// Set when each page is on screen: a little before its first word, lingering
+// after its last one, at least minDisplayMs, and bridging short gaps to the
+// next page. Pages never overlap and a page never hides its own words early.
+export function applyPageTiming(pages: CaptionPage[], fps: number, totalFrames: number): void {
+  const toFrames = (ms: number) => Math.round((ms / 1000) * fps);
+  const { minDisplayMs, lingerMs, leadInMs, gapFillMs } = PAGE_TIMING_SETTINGS;
+  const lastFrame = Math.max(totalFrames - 1, 0);
+
+  const speech = pages.map((page) => ({
+    start: page.words[0].startFrame,
+    end: page.words[page.words.length - 1].endFrame,
+  }));
+
+  // Starts first, so each page's end can stop just before the next one
+  const starts = speech.map((s, i) =>
+    Math.min(s.start, Math.max(0, s.start - toFrames(leadInMs), i > 0 ? speech[i - 1].end + 1 : 0))
+  );
+
+  pages.forEach((page, i) => {
+    const start = starts[i];
+    let end = Math.max(speech[i].end + toFrames(lingerMs), start + toFrames(minDisplayMs));
+
+    if (i < pages.length - 1) {
+      const nextStart = starts[i + 1];
+      if (nextStart - end - 1 <= toFrames(gapFillMs)) end = nextStart - 1;
+      end = Math.min(end, nextStart - 1);
+    }
+
+    page.startFrame = start;
+    page.endFrame = Math.max(Math.min(end, lastFrame), speech[i].end);
+  });
+}
@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadProjectConfig } from "./project-config.js";
+
+function writeProject(settings: unknown): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "project-config-"));
+  const filePath = path.join(dir, "project.json");
+  fs.writeFileSync(filePath, JSON.stringify(settings));
+  return filePath;
+}
+
+test("loadProjectConfig names an invalid filler pattern", () => {
+  const filePath = writeProject({ fillerPatterns: ["^u+m+$", "(unclosed"] });
+  try {
+    assert.throws(() => loadProjectConfig(filePath), /project\.json:\n {2}fillerPatterns\.1: Invalid regex: \(unclosed/);
+  } finally {
+    fs.rmSync(path.dirname(filePath), { recursive: true });
+  }
+});
+
+test("loadProjectConfig accepts valid filler patterns", () => {
+  const filePath = writeProject({ fillerPatterns: ["^u+m+$"] });
+  try {
+    assert.deepEqual(loadProjectConfig(filePath), { fillerPatterns: ["^u+m+$"] });
+  } finally {
+    fs.rmSync(path.dirname(filePath), { recursive: true });
+  }
+});
@@ -0,0 +1,238 @@
+import fs from "fs";
+import { z } from "zod";
+
+// Schema for project.json. Every section is optional and mirrors a settings
+// object in config.ts; whatever is set is deep-merged over the defaults.
+
+const padding = z.object({ preRollMs: z.number().min(0), postRollMs: z.number().min(0) }).strict();
+const noiseAction = z.enum(["remove", "attenuate", "keep"]);
+
+function isValidRegex(source: string): boolean {
+  try {
+    new RegExp(source, "i");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const ProjectConfigSchema = z
+  .object({
+    // Output video (fps, dimensions)
+    video: z
+      .object({
+        fps: z.number().int().positive(),
+        width: z.number().int().positive(),
+        height: z.number().int().positive(),
+      })
+      .strict(),
+    transcriptionSettings: z
+      .object({
+        provider: z.string(),
+        openaiModel: z.string(),
+        local: z
+          .object({
+            engine: z.string(),
+            binary: z.string(),
+            model: z.string(),
+            language: z.string(),
+            threads: z.number().int().positive(),
+          })
+          .strict(),
+        chunking: z
+          .object({
+            chunkSeconds: z.number().positive(),
+            overlapSeconds: z.number().min(0),
+            silenceSearchSeconds: z.number().min(0),
+            silenceNoiseDb: z.number(),
+            silenceMinSeconds: z.number().min(0),
+          })
+          .strict(),
+      })
+      .strict(),
+    diarizationSettings: z
+      .object({
+        provider: z.string(),
+        localCommand: z.string(),
+        maxGapSeconds: z.number().min(0),
+      })
+      .strict(),
+    fillerWords: z.array(z.string()),
+    contextualFillers: z
+      .object({
+        sentenceStartOnly: z.array(z.string()),
+        standaloneOnly: z.array(z.string()),
+      })
+      .strict(),
+    // Regex sources, matched case-insensitively
+    fillerPatterns: z.array(
+      z.string().refine(isValidRegex, (source) => ({ message: `Invalid regex: ${source}` }))
+    ),
+    mouthNoiseSettings: z
+      .object({
+        enabled: z.boolean(),
+        breathAction: noiseAction,
+        clickAction: noiseAction,
+        attenuateDb: z.number().max(0),
+        fadeMs: z.number().min(0),
+        breathMinMs: z.number().min(0),
+        breathMaxMs: z.number().min(0),
+        breathMinFlatness: z.number().min(0).max(1),
+        clickMaxMs: z.number().min(0),
+        clickMinCrestDb: z.number(),
+        eventAboveFloorDb: z.number(),
+      })
+      .strict(),
+    repetitionSettings: z
+      .object({
+        maxPhraseWords: z.number().int().positive(),
+        maxGapMs: z.number().min(0),
+        allowedRepeats: z.array(z.string()),
+        stutterMinChars: z.number().int().positive(),
+        stutterMaxGapMs: z.number().min(0),
+      })
+      .strict(),
+    retakeSettings: z
+      .object({
+        minWords: z.number().int().positive(),
+        maxWords: z.number().int().positive(),
+        windowMs: z.number().min(0),
+        minSimilarity: z.number().min(0).max(1),
+        autoRemoveSimilarity: z.number().min(0).max(1),
+        phraseGapMs: z.number().min(0),
+      })
+      .strict(),
+    pauseThresholds: z
+      .object({
+        detectMs: z.number().min(0),
+        autoRemoveMs: z.number().min(0),
+      })
+      .strict(),
+    cutSettings: z
+      .object({
+        // Reasons not in the defaults get 0 for any side left out
+        padding: z.record(padding.partial()),
+        minKeptSegmentMs: z.number().min(0),
+        minCutMs: z.number().min(0),
+      })
+      .strict(),
+    silenceSettings: z
+      .object({
+        enabled: z.boolean(),
+        noiseDb: z.number(),
+        minDurationMs: z.number().min(0),
+        wordBoundaryToleranceMs: z.number().min(0),
+        trimEdges: z.boolean(),
+      })
+      .strict(),
+    targetDurationSettings: z
+      .object({
+        targetSeconds: z.number().positive().nullable(),
+        keepFirstSentence: z.boolean(),
+      })
+      .strict(),
+    captionStyles: z
+      .object({
+        emphasisColor: z.string(),
+        normalColor: z.string(),
+        fontFamily: z.string(),
+        fontSize: z.number().positive(),
+        fontWeight: z.number().int().positive(),
+        textShadow: z.string(),
+        wordsPerPage: z.number().int().positive(),
+        bottomOffset: z.string(),
+      })
+      .strict(),
+    paginationSettings: z
+      .object({
+        strategy: z.enum(["smart", "fixed"]),
+        breakOnPauseMs: z.number().min(0),
+        minPageMs: z.number().min(0),
+        maxLines: z.number().int().positive(),
+        maxChars: z.number().int().positive(),
+        fontFile: z.string(),
+        maxWidthPercent: z.number().positive().max(100),
+      })
+      .strict(),
+    pageTimingSettings: z
+      .object({
+        minDisplayMs: z.number().min(0),
+        lingerMs: z.number().min(0),
+        leadInMs: z.number().min(0),
+        gapFillMs: z.number().min(0),
+      })
+      .strict(),
+    ffmpegSettings: z
+      .object({
+        audioCodec: z.string(),
+        videoCodec: z.string(),
+        crf: z.number().int().min(0).max(51),
+        preset: z.string(),
+      })
+      .strict(),
+    gptSettings: z
+      .object({
+        model: z.string(),
+        emphasisMinPercent: z.number().min(0).max(100),
+        emphasisMaxPercent: z.number().min(0).max(100),
+      })
+      .strict(),
+    prosodySettings: z
+      .object({
+        blend: z.number().min(0).max(1),
+        weights: z
+          .object({
+            loudness: z.number().min(0),
+            pitch: z.number().min(0),
+            duration: z.number().min(0),
+          })
+          .strict(),
+        contextWords: z.number().int().positive(),
+        minPitchHz: z.number().positive(),
+        maxPitchHz: z.number().positive(),
+      })
+      .strict(),
+    emphasisSettings: z
+      .object({
+        provider: z.string(),
+        local: z
+          .object({
+            baseURL: z.string(),
+            model: z.string(),
+            apiKey: z.string(),
+          })
+          .strict(),
+        window: z
+          .object({
+            words: z.number().int().positive(),
+            contextWords: z.number().int().min(0),
+          })
+          .strict(),
+      })
+      .strict(),
+  })
+  .strict()
+  .deepPartial();
+
+export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
+
+// Read and validate project.json; a missing file means no overrides
+export function loadProjectConfig(filePath: string): ProjectConfig {
+  if (!fs.existsSync(filePath)) return {};
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (e) {
+    throw new Error(`Invalid JSON in ${filePath}: ${(e as Error).message}`);
+  }
+
+  const result = ProjectConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`Invalid project config in ${filePath}:\n${issues}`);
+  }
+  return result.data;
+}
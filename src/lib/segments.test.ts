@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TimeSegment } from "../types.js";
+import { snapSegmentsToFrames } from "./segments.js";
+
+// 25fps: one frame every 40ms
+const FPS = 25;
+
+function cut(startMs: number, endMs: number, reason = "pause"): TimeSegment {
+  return { startMs, endMs, reason };
+}
+
+test("snapSegmentsToFrames moves cut edges to the nearest frame", () => {
+  assert.deepEqual(snapSegmentsToFrames([cut(1010, 2030)], FPS, 10000), [cut(1000, 2040)]);
+});
+
+test("snapSegmentsToFrames drops cuts shorter than a frame", () => {
+  assert.deepEqual(snapSegmentsToFrames([cut(1005, 1015)], FPS, 10000), []);
+});
+
+test("snapSegmentsToFrames merges cuts that meet after snapping", () => {
+  const snapped = snapSegmentsToFrames([cut(3010, 4000, "retake"), cut(1000, 1990), cut(2010, 3000)], FPS, 10000);
+  assert.deepEqual(snapped, [cut(1000, 4000, "pause; pause; retake")]);
+});
+
+test("snapSegmentsToFrames keeps cuts that run to the end of the video", () => {
+  assert.deepEqual(snapSegmentsToFrames([cut(4900, 5010, "silence")], FPS, 5010), [cut(4920, 5010, "silence")]);
+  assert.deepEqual(snapSegmentsToFrames([cut(4900, 5100, "silence")], FPS, 5010), [cut(4920, 5010, "silence")]);
+});
+
+test("snapSegmentsToFrames leaves its input untouched", () => {
+  const segments = [cut(1010, 2030)];
+  snapSegmentsToFrames(segments, FPS, 10000);
+  assert.deepEqual(segments, [cut(1010, 2030)]);
+});
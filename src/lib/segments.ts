@@ -0,0 +1,95 @@
+import { TimeSegment } from "../types.js";
+
+// Sort segments and merge any that overlap, joining their reasons
+export function mergeSegments(segments: TimeSegment[]): TimeSegment[] {
+  const sorted = segments
+    .map((seg) => ({ ...seg }))
+    .sort((a, b) => a.startMs - b.startMs);
+
+  const merged: TimeSegment[] = [];
+  for (const seg of sorted) {
+    if (merged.length === 0) {
+      merged.push(seg);
+    } else {
+      const last = merged[merged.length - 1];
+      if (seg.startMs <= last.endMs) {
+        // Overlapping, merge them
+        last.endMs = Math.max(last.endMs, seg.endMs);
+        last.reason = `${last.reason}; ${seg.reason}`;
+      } else {
+        merged.push(seg);
+      }
+    }
+  }
+
+  return merged;
+}
+
+export function totalSegmentDuration(segments: TimeSegment[]): number {
+  return segments.reduce((sum, seg) => sum + (seg.endMs - seg.startMs), 0);
+}
+
+export interface CutPadding {
+  preRollMs: number;
+  postRollMs: number;
+}
+
+// Shrink a cut so some audio is kept on each side of it.
+// Returns null when the padding leaves nothing to cut.
+export function padSegment(segment: TimeSegment, padding: CutPadding): TimeSegment | null {
+  const startMs = segment.startMs + padding.postRollMs;
+  const endMs = segment.endMs - padding.preRollMs;
+  return endMs > startMs ? { ...segment, startMs, endMs } : null;
+}
+
+// Clean up merged cuts: absorb kept slivers shorter than minKeptSegmentMs
+// (including at the very start and end), then drop cuts shorter than minCutMs
+export function applySegmentMinimums(
+  segments: TimeSegment[],
+  durationMs: number,
+  rules: { minKeptSegmentMs: number; minCutMs: number }
+): TimeSegment[] {
+  const result: TimeSegment[] = [];
+  for (const seg of mergeSegments(segments)) {
+    const last = result[result.length - 1];
+    if (last && seg.startMs - last.endMs < rules.minKeptSegmentMs) {
+      last.endMs = Math.max(last.endMs, seg.endMs);
+      last.reason = `${last.reason}; ${seg.reason}`;
+    } else {
+      result.push(seg);
+    }
+  }
+
+  if (result.length > 0) {
+    const first = result[0];
+    if (first.startMs > 0 && first.startMs < rules.minKeptSegmentMs) {
+      first.startMs = 0;
+    }
+    const last = result[result.length - 1];
+    if (durationMs > last.endMs && durationMs - last.endMs < rules.minKeptSegmentMs) {
+      last.endMs = durationMs;
+    }
+  }
+
+  return result.filter((seg) => seg.endMs - seg.startMs >= rules.minCutMs);
+}
+
+// Move cut edges to the nearest frame boundary so the cut video's kept
+// segments and the caption frame math both land on whole frames
+export function snapSegmentsToFrames(
+  segments: TimeSegment[],
+  fps: number,
+  durationMs: number
+): TimeSegment[] {
+  const snap = (ms: number) => Math.min((Math.round((ms * fps) / 1000) * 1000) / fps, durationMs);
+  return mergeSegments(
+    segments
+      // Cuts running to the end of the video keep going to the end
+      .map((seg) => ({
+        ...seg,
+        startMs: snap(seg.startMs),
+        endMs: seg.endMs >= durationMs ? durationMs : snap(seg.endMs),
+      }))
+      .filter((seg) => seg.endMs > seg.startMs)
+  );
+}
@@ -0,0 +1,15 @@
+// Common function words: never emphasized, and carry little meaning when scoring sentences
+export const SKIP_WORDS = new Set([
+  "a", "an", "the", "is", "are", "was", "were", "be", "been", "being",
+  "have", "has", "had", "do", "does", "did", "will", "would", "could",
+  "should", "may", "might", "must", "shall", "can", "need", "dare",
+  "and", "or", "but", "if", "then", "else", "when", "where", "why",
+  "how", "what", "which", "who", "whom", "whose", "that", "this",
+  "these", "those", "it", "its", "i", "i'm", "you", "your", "he",
+  "she", "we", "they", "me", "him", "her", "us", "them", "my", "our",
+  "in", "on", "at", "to", "for", "of", "with", "by", "from", "up",
+  "down", "out", "off", "over", "under", "again", "further", "once",
+  "here", "there", "all", "each", "few", "more", "most", "other",
+  "some", "such", "no", "nor", "not", "only", "own", "same", "so",
+  "than", "too", "very", "just", "gonna", "gotta", "wanna",
+]);
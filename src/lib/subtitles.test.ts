@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { cuesToTranscription, parseSubtitleCues, parseWordJson } from "./subtitles.js";
+
+test("parseSubtitleCues reads SRT with formatting and CRLF line endings", () => {
+  const srt = [
+    "1",
+    "00:00:01,000 --> 00:00:02,500",
+    "<i>Hello</i> there",
+    "",
+    "2",
+    "00:00:03,000 --> 00:00:04,000",
+    "- General",
+    "- Kenobi",
+    "",
+  ].join("\r\n");
+  assert.deepEqual(parseSubtitleCues(srt), [
+    { start: 1, end: 2.5, text: "Hello there" },
+    { start: 3, end: 4, text: "General Kenobi" },
+  ]);
+});
+
+test("parseSubtitleCues reads WebVTT with headers, notes, cue settings and short timestamps", () => {
+  const vtt = [
+    "\uFEFFWEBVTT",
+    "",
+    "NOTE made by hand",
+    "",
+    "intro",
+    "00:05.000 --> 00:06.250 align:start position:10%",
+    "{\\an8}<c.yellow>Second</c> cue",
+    "",
+    "00:00:01.000 --> 00:00:02.000",
+    "First <00:00:01.500>cue",
+  ].join("\n");
+  assert.deepEqual(parseSubtitleCues(vtt), [
+    { start: 1, end: 2, text: "First cue" },
+    { start: 5, end: 6.25, text: "Second cue" },
+  ]);
+});
+
+test("cuesToTranscription spreads each cue's time over its words", () => {
+  const transcription = cuesToTranscription([{ start: 0, end: 1, text: "I see" }], 10);
+  assert.equal(transcription.text, "I see");
+  assert.equal(transcription.segments.length, 1);
+  assert.deepEqual(
+    transcription.words.map((w) => [w.word, w.start, w.end]),
+    [["I", 0, 0.25], ["see", 0.25, 1]]
+  );
+});
+
+test("parseWordJson accepts word arrays in seconds or milliseconds", () => {
+  const seconds = parseWordJson(JSON.stringify([{ word: "Hi.", start: 0, end: 0.4 }]), 5);
+  const millis = parseWordJson(JSON.stringify({ words: [{ text: " Hi. ", startMs: 0, endMs: 400 }] }), 5);
+  assert.deepEqual(seconds.words, [{ word: "Hi.", start: 0, end: 0.4 }]);
+  assert.deepEqual(millis.words, seconds.words);
+  assert.equal(millis.duration, 5);
+});
+
+test("parseWordJson splits segments at sentence ends when none are given", () => {
+  const words = ["One.", "Two", "three!", "Four"].map((word, i) => ({ word, start: i, end: i + 0.5 }));
+  const { segments } = parseWordJson(JSON.stringify(words), 10);
+  assert.deepEqual(
+    segments.map((s) => [s.start, s.end, s.text]),
+    [[0, 0.5, " One."], [1, 2.5, " Two three!"], [3, 3.5, " Four"]]
+  );
+});
+
+test("parseWordJson rejects words without text or timing", () => {
+  assert.throws(() => parseWordJson(JSON.stringify([{ word: "", start: 0, end: 1 }]), 5), /position 0/);
+  assert.throws(() => parseWordJson(JSON.stringify([{ word: "hi", start: "soon" }]), 5), /position 0/);
+  assert.throws(() => parseWordJson(JSON.stringify({ text: "hi" }), 5), /"words" array/);
+});
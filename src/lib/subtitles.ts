@@ -0,0 +1,143 @@
+import { WhisperTranscription, WhisperSegment, WhisperWord } from "../types.js";
+import { distributeWordTimings } from "./word-timing.js";
+
+export interface SubtitleCue {
+  start: number; // seconds
+  end: number; // seconds
+  text: string;
+}
+
+// Parse "HH:MM:SS,mmm", "HH:MM:SS.mmm" or "MM:SS.mmm" into seconds
+function parseTimestamp(timestamp: string): number {
+  const parts = timestamp.trim().replace(",", ".").split(":");
+  let seconds = 0;
+  for (const part of parts) {
+    seconds = seconds * 60 + parseFloat(part);
+  }
+  return seconds;
+}
+
+// Remove formatting tags: <i>, <c.color>, <00:00:01.000>, {\an8}, and dialogue dashes
+function cleanCueText(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/^-\s*/gm, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// Parse SRT or WebVTT. Both are blank-line separated blocks with a "start --> end" line.
+export function parseSubtitleCues(content: string): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  const blocks = content.replace(/\r\n/g, "\n").replace(/^\uFEFF/, "").split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+
+    // Skip WEBVTT header, NOTE and STYLE blocks
+    if (timingIndex === -1) continue;
+
+    const [startPart, endPart] = lines[timingIndex].split("-->");
+    // VTT cue settings follow the end timestamp ("00:01.000 align:start")
+    const endTimestamp = endPart.trim().split(/\s+/)[0];
+    const text = cleanCueText(lines.slice(timingIndex + 1).join("\n"));
+
+    if (text) {
+      cues.push({
+        start: parseTimestamp(startPart),
+        end: parseTimestamp(endTimestamp),
+        text,
+      });
+    }
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+// Spread a cue's duration across its words in proportion to their character length
+export function estimateWordTimings(cue: SubtitleCue): WhisperWord[] {
+  const tokens = cue.text.split(/\s+/).filter(Boolean);
+  return distributeWordTimings(tokens, cue.start, cue.end);
+}
+
+function cueToSegment(cue: SubtitleCue, id: number): WhisperSegment {
+  return {
+    id,
+    seek: 0,
+    start: cue.start,
+    end: cue.end,
+    text: ` ${cue.text}`,
+    tokens: [],
+    temperature: 0,
+    avg_logprob: 0,
+    compression_ratio: 0,
+    no_speech_prob: 0,
+  };
+}
+
+// Build a transcription from subtitle cues, estimating word timings inside each cue
+export function cuesToTranscription(
+  cues: SubtitleCue[],
+  duration: number,
+  language = "en"
+): WhisperTranscription {
+  return {
+    task: "transcribe",
+    language,
+    duration,
+    text: cues.map((c) => c.text).join(" "),
+    words: cues.flatMap(estimateWordTimings),
+    segments: cues.map(cueToSegment),
+  };
+}
+
+// Parse word-level JSON: an array of words, { words: [...] }, or a full Whisper transcription.
+// Words may use "word" or "text", and seconds ("start"/"end") or milliseconds ("startMs"/"endMs").
+export function parseWordJson(content: string, duration: number): WhisperTranscription {
+  const parsed = JSON.parse(content);
+  const rawWords: Record<string, unknown>[] = Array.isArray(parsed) ? parsed : parsed.words;
+
+  if (!Array.isArray(rawWords)) {
+    throw new Error('Word-level JSON must be an array of words or an object with a "words" array');
+  }
+
+  const words: WhisperWord[] = rawWords.map((w, i) => {
+    const word = String(w.word ?? w.text ?? "").trim();
+    const start = typeof w.startMs === "number" ? w.startMs / 1000 : Number(w.start);
+    const end = typeof w.endMs === "number" ? w.endMs / 1000 : Number(w.end);
+    if (!word || Number.isNaN(start) || Number.isNaN(end)) {
+      throw new Error(`Invalid word at position ${i}: ${JSON.stringify(w)}`);
+    }
+    return { word, start, end };
+  });
+
+  // Keep existing segments, otherwise treat each sentence as a segment
+  let segments: WhisperSegment[] = Array.isArray(parsed.segments) ? parsed.segments : [];
+  if (segments.length === 0) {
+    const cues: SubtitleCue[] = [];
+    let current: WhisperWord[] = [];
+    for (const word of words) {
+      current.push(word);
+      if (/[.!?]$/.test(word.word) || word === words[words.length - 1]) {
+        cues.push({
+          start: current[0].start,
+          end: current[current.length - 1].end,
+          text: current.map((w) => w.word).join(" "),
+        });
+        current = [];
+      }
+    }
+    segments = cues.map(cueToSegment);
+  }
+
+  return {
+    task: "transcribe",
+    language: parsed.language || "en",
+    duration: parsed.duration || duration,
+    text: parsed.text || words.map((w) => w.word).join(" "),
+    words,
+    segments,
+  };
+}
@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { WhisperWord } from "../types.js";
+import { applyTextEdits } from "./text-edits.js";
+
+// One word per second
+const words: WhisperWord[] = ["we", "use", "remote", "ocean", "to", "render", "in", "newyork"].map(
+  (word, i) => ({ word, start: i, end: i + 0.8, speaker: "A" })
+);
+
+const texts = (result: { word: string }[]) => result.map((w) => w.word);
+
+test("applyTextEdits replaces words one for one and keeps their timing", () => {
+  const { words: edited, applied } = applyTextEdits(words, [{ index: 4, text: "for" }]);
+  assert.equal(applied.length, 1);
+  assert.deepEqual(edited[4], { word: "for", start: 4, end: 4.8, speaker: "A", originalIndex: 4, sourceIndices: [4] });
+  assert.deepEqual(texts(edited), ["we", "use", "remote", "ocean", "for", "render", "in", "newyork"]);
+});
+
+test("applyTextEdits merges words into one over their whole span", () => {
+  const { words: edited } = applyTextEdits(words, [{ index: 2, count: 2, text: "Remotion" }]);
+  assert.deepEqual(texts(edited), ["we", "use", "Remotion", "to", "render", "in", "newyork"]);
+  assert.deepEqual(edited[2], { word: "Remotion", start: 2, end: 3.8, speaker: "A", originalIndex: 2, sourceIndices: [2, 3] });
+});
+
+test("applyTextEdits splits a word and shares its span by length", () => {
+  const { words: edited } = applyTextEdits(words, [{ index: 7, text: "New York" }]);
+  const [first, second] = edited.slice(7);
+  assert.deepEqual(texts(edited.slice(7)), ["New", "York"]);
+  assert.equal(first.start, 7);
+  assert.ok(Math.abs(first.end - (7 + 0.8 * (3 / 7))) < 1e-9);
+  assert.equal(second.start, first.end);
+  assert.equal(second.end, 7.8);
+  assert.deepEqual([first.originalIndex, second.originalIndex], [7, 7]);
+  assert.equal(second.speaker, "A");
+});
+
+test("applyTextEdits hides words replaced by empty text", () => {
+  const { words: edited } = applyTextEdits(words, [{ index: 0, count: 2, text: " " }]);
+  assert.deepEqual(texts(edited), ["remote", "ocean", "to", "render", "in", "newyork"]);
+  assert.equal(edited[0].originalIndex, 2);
+});
+
+test("applyTextEdits skips edits that overlap or run past the transcript", () => {
+  const edits = [
+    { index: 2, count: 2, text: "Remotion" },
+    { index: 3, text: "motion" },
+    { index: 7, count: 2, text: "New York" },
+    { index: -1, text: "so" },
+  ];
+  const { words: edited, applied, skipped } = applyTextEdits(words, edits);
+  assert.deepEqual(applied, [edits[0]]);
+  assert.deepEqual(skipped, [edits[3], edits[1], edits[2]]);
+  assert.equal(edited.length, words.length - 1);
+});
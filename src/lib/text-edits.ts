@@ -0,0 +1,71 @@
+import { TextEdit, WhisperWord } from "../types.js";
+import { distributeWordTimings } from "./word-timing.js";
+
+// A transcript word after text edits
+export interface EditedWord extends WhisperWord {
+  // Original index of the word it came from (the first one for merges)
+  originalIndex: number;
+  // Every original word it replaces
+  sourceIndices: number[];
+}
+
+// Apply text edits to the transcript. Replacing N words with N words keeps
+// their timings; splits and merges spread the original span over the new
+// words by length. Edits that are out of range or overlap an earlier edit are
+// skipped and returned so the caller can report them.
+export function applyTextEdits(
+  words: WhisperWord[],
+  edits: TextEdit[]
+): { words: EditedWord[]; applied: TextEdit[]; skipped: TextEdit[] } {
+  const applied: TextEdit[] = [];
+  const skipped: TextEdit[] = [];
+  const editAt = new Map<number, TextEdit>();
+
+  let coveredUntil = 0;
+  for (const edit of [...edits].sort((a, b) => a.index - b.index)) {
+    const count = edit.count ?? 1;
+    if (
+      !Number.isInteger(edit.index) ||
+      !Number.isInteger(count) ||
+      count < 1 ||
+      edit.index < coveredUntil ||
+      edit.index + count > words.length
+    ) {
+      skipped.push(edit);
+      continue;
+    }
+    editAt.set(edit.index, edit);
+    applied.push(edit);
+    coveredUntil = edit.index + count;
+  }
+
+  const result: EditedWord[] = [];
+  for (let i = 0; i < words.length; ) {
+    const edit = editAt.get(i);
+    if (!edit) {
+      result.push({ ...words[i], originalIndex: i, sourceIndices: [i] });
+      i++;
+      continue;
+    }
+
+    const count = edit.count ?? 1;
+    const source = words.slice(i, i + count);
+    const tokens = edit.text.trim().split(/\s+/).filter(Boolean);
+    const speaker = source[0].speaker;
+
+    if (tokens.length === count) {
+      // Same number of words: only the text changes
+      source.forEach((w, k) =>
+        result.push({ ...w, word: tokens[k], originalIndex: i + k, sourceIndices: [i + k] })
+      );
+    } else {
+      const sourceIndices = source.map((_, k) => i + k);
+      for (const w of distributeWordTimings(tokens, source[0].start, source[count - 1].end)) {
+        result.push({ ...w, ...(speaker ? { speaker } : {}), originalIndex: i, sourceIndices });
+      }
+    }
+    i += count;
+  }
+
+  return { words: result, applied, skipped };
+}
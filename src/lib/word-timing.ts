@@ -0,0 +1,28 @@
+import { WhisperWord } from "../types.js";
+
+// Spread a time span across words in proportion to their character length
+export function distributeWordTimings(
+  tokens: string[],
+  start: number,
+  end: number
+): WhisperWord[] {
+  // Every word gets at least one character's worth of time
+  const weights = tokens.map((t) => Math.max(1, t.replace(/[^\p{L}\p{N}]/gu, "").length));
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const duration = end - start;
+
+  const words: WhisperWord[] = [];
+  let position = start;
+  for (let i = 0; i < tokens.length; i++) {
+    const wordDuration = (weights[i] / totalWeight) * duration;
+    words.push({
+      word: tokens[i],
+      start: position,
+      // Snap the last word to the span end to avoid floating point drift
+      end: i === tokens.length - 1 ? end : position + wordDuration,
+    });
+    position += wordDuration;
+  }
+
+  return words;
+}
@@ -1,8 +1,14 @@
 import React from "react";
 import { AbsoluteFill, useCurrentFrame, interpolate } from "remotion";
 import { Word } from "./Word";
-import { captionRowStyle } from "./styles";
-import { CaptionTimingData, CaptionPage, CaptionPosition, PositionKeyframe } from "../types";
+import { captionLinesStyle, captionLineStyle, getSpeakerColor } from "./styles";
+import {
+  CaptionTimingData,
+  CaptionPage,
+  CaptionPosition,
+  CaptionWord,
+  PositionKeyframe,
+} from "../types";
 
 interface CaptionsProps {
   captionData: CaptionTimingData;
@@ -63,6 +69,14 @@ function getInterpolatedPosition(
   return staticPosition || DEFAULT_POSITION;
 }
 
+// The first word pops in when the page appears, so lead-in frames aren't blank
+function revealDuringLeadIn(word: CaptionWord, page: CaptionPage): CaptionWord {
+  const first = page.words[0];
+  // Compare timing too: words split by a text edit share an original index
+  if (word.originalIndex !== first.originalIndex || word.startFrame !== first.startFrame) return word;
+  return word.startFrame > page.startFrame ? { ...word, startFrame: page.startFrame } : word;
+}
+
 export const Captions: React.FC<CaptionsProps> = ({ captionData, previewPosition }) => {
   const frame = useCurrentFrame();
 
@@ -73,8 +87,11 @@ export const Captions: React.FC<CaptionsProps> = ({ captionData, previewPosition
     return null;
   }
 
-  // Use preview position if provided, otherwise interpolate from keyframes
-  const position = previewPosition || getInterpolatedPosition(
+  // Speaker position wins, then preview position, then keyframes/static position
+  const speakerPosition = currentPage.speaker
+    ? captionData.speakerPositions?.[currentPage.speaker]
+    : undefined;
+  const position = speakerPosition || previewPosition || getInterpolatedPosition(
     frame,
     captionData.positionKeyframes,
     captionData.position
@@ -96,13 +113,20 @@ export const Captions: React.FC<CaptionsProps> = ({ captionData, previewPosition
   return (
     <AbsoluteFill>
       <div style={containerStyle}>
-        <div style={captionRowStyle}>
-          {currentPage.words.map((word, index) => (
-            <Word
-              key={`${word.originalIndex}-${index}`}
-              word={word}
-              currentFrame={frame}
-            />
+        <div style={captionLinesStyle}>
+          {/* Older timing files have no lines: show the page on one line */}
+          {(currentPage.lines || [currentPage.words]).map((line, lineIndex) => (
+            <div key={lineIndex} style={captionLineStyle}>
+              {line.map((word, index) => (
+                <Word
+                  key={`${word.originalIndex}-${index}`}
+                  word={revealDuringLeadIn(word, currentPage)}
+                  currentFrame={frame}
+                  color={getSpeakerColor(word.speaker, captionData.speakers, captionData.styles)}
+                  styles={captionData.styles}
+                />
+              ))}
+            </div>
           ))}
         </div>
       </div>
@@ -110,6 +134,8 @@ export const Captions: React.FC<CaptionsProps> = ({ captionData, previewPosition
   );
 };
 
+// Pages carry their display window from step 4 (lead-in, linger, minimum
+// duration and gap filling are already applied), so a frame belongs to at most one page
 function findCurrentPage(
   pages: CaptionPage[],
   frame: number
@@ -120,14 +146,5 @@ function findCurrentPage(
     }
   }
 
-  for (let i = pages.length - 1; i >= 0; i--) {
-    if (frame > pages[i].endFrame) {
-      if (frame <= pages[i].endFrame + 5) {
-        return pages[i];
-      }
-      break;
-    }
-  }
-
   return null;
 }
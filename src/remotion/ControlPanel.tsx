@@ -1,34 +1,80 @@
 import React, { useState, useCallback, useEffect } from "react";
 import { createPortal } from "react-dom";
 import { useCurrentFrame, getRemotionEnvironment } from "remotion";
-import { CaptionTimingData, CaptionPosition, PositionKeyframe } from "../types";
+import {
+  CaptionTimingData,
+  CaptionPosition,
+  CaptionWord,
+  PositionKeyframe,
+  TextEdit,
+} from "../types";
 
 interface ControlPanelProps {
   captionData: CaptionTimingData;
   position: CaptionPosition;
   keyframes: PositionKeyframe[];
+  textEdits: TextEdit[];
   onPositionChange: (position: CaptionPosition) => void;
   onKeyframesChange: (keyframes: PositionKeyframe[]) => void;
   onEmphasisToggle: (wordIndex: number) => void;
+  onTextEditsChange: (textEdits: TextEdit[]) => void;
+  // Called with the regenerated timing after text edits are saved
+  onCaptionDataReload?: (captionData: CaptionTimingData) => void;
   onBackToProjects?: () => void;
   projectName?: string;
 }
 
 const SAVE_SERVER_URL = "http://localhost:3333/save";
 
+// Caption words that came from the same original word (split words share one)
+interface WordGroup {
+  originalIndex: number;
+  text: string;
+}
+
+function groupWords(words: CaptionWord[]): WordGroup[] {
+  const groups: WordGroup[] = [];
+  for (const word of words) {
+    const last = groups[groups.length - 1];
+    if (last && last.originalIndex === word.originalIndex) {
+      last.text = `${last.text} ${word.word.trim()}`;
+    } else {
+      groups.push({ originalIndex: word.originalIndex, text: word.word.trim() });
+    }
+  }
+  return groups;
+}
+
+// Original words [start, end) covered by the edit at or around an index
+function editSpan(textEdits: TextEdit[], index: number): { start: number; end: number } {
+  const edit = textEdits.find((e) => index >= e.index && index < e.index + (e.count ?? 1));
+  return edit ? { start: edit.index, end: edit.index + (edit.count ?? 1) } : { start: index, end: index + 1 };
+}
+
+// Replace every edit overlapping [start, end) with one edit for the whole span
+function replaceSpan(textEdits: TextEdit[], start: number, end: number, text: string): TextEdit[] {
+  const kept = textEdits.filter((e) => e.index + (e.count ?? 1) <= start || e.index >= end);
+  return [...kept, { index: start, ...(end - start > 1 ? { count: end - start } : {}), text }].sort(
+    (a, b) => a.index - b.index
+  );
+}
+
 export const ControlPanel: React.FC<ControlPanelProps> = ({
   captionData,
   position,
   keyframes,
+  textEdits,
   onPositionChange,
   onKeyframesChange,
   onEmphasisToggle,
+  onTextEditsChange,
+  onCaptionDataReload,
   onBackToProjects,
   projectName,
 }) => {
   const currentFrame = useCurrentFrame();
   const environment = getRemotionEnvironment();
-  const [activeTab, setActiveTab] = useState<"position" | "keyframes" | "emphasis">("position");
+  const [activeTab, setActiveTab] = useState<"position" | "keyframes" | "emphasis" | "text">("position");
   const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
   const [portalContainer, setPortalContainer] = useState<HTMLElement | null>(null);
 
@@ -59,9 +105,16 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         body: JSON.stringify({
           positionKeyframes: keyframes,
           position: position,
+          emphasisOverrides: captionData.emphasisOverrides,
+          textEdits,
         }),
       });
       if (response.ok) {
+        // Text edits are re-timed by step 4 on the server
+        const result = await response.json();
+        if (result.captionData) {
+          onCaptionDataReload?.(result.captionData);
+        }
         setSaveStatus("saved");
         setTimeout(() => setSaveStatus("idle"), 2000);
       } else {
@@ -71,7 +124,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
       console.error("Save failed:", e);
       setSaveStatus("error");
     }
-  }, [keyframes, position]);
+  }, [keyframes, position, captionData.emphasisOverrides, textEdits, onCaptionDataReload]);
 
   const handleAddKeyframe = useCallback(() => {
     const newKeyframe: PositionKeyframe = {
@@ -96,6 +149,41 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
     onKeyframesChange(updated);
   }, [keyframes, onKeyframesChange]);
 
+  // Text tab: groups in caption order, with the original words each one covers
+  const wordGroups = groupWords(captionData.pages.flatMap((page) => page.words));
+
+  const handleTextCommit = useCallback((group: WordGroup, value: string) => {
+    const text = value.trim().replace(/\s+/g, " ");
+    if (text === group.text) return;
+
+    // Rewrite the whole edit this word belongs to, keeping its other words
+    const span = editSpan(textEdits, group.originalIndex);
+    const spanText = wordGroups
+      .filter((g) => g.originalIndex >= span.start && g.originalIndex < span.end)
+      .map((g) => (g.originalIndex === group.originalIndex ? text : g.text))
+      .join(" ");
+    onTextEditsChange(replaceSpan(textEdits, span.start, span.end, spanText));
+  }, [textEdits, wordGroups, onTextEditsChange]);
+
+  const handleMergeNext = useCallback((groupIdx: number) => {
+    const span = editSpan(textEdits, wordGroups[groupIdx].originalIndex);
+    const next = wordGroups.find((g) => g.originalIndex >= span.end);
+    if (!next) return;
+    const nextSpan = editSpan(textEdits, next.originalIndex);
+    // Only merge words that are next to each other in the transcript
+    if (nextSpan.start !== span.end) return;
+
+    const text = wordGroups
+      .filter((g) => g.originalIndex >= span.start && g.originalIndex < nextSpan.end)
+      .map((g) => g.text)
+      .join("");
+    onTextEditsChange(replaceSpan(textEdits, span.start, nextSpan.end, text));
+  }, [textEdits, wordGroups, onTextEditsChange]);
+
+  const handleResetEdit = useCallback((index: number) => {
+    onTextEditsChange(textEdits.filter((e) => e.index !== index));
+  }, [textEdits, onTextEditsChange]);
+
   const frameToTime = (frame: number) => {
     const seconds = frame / captionData.fps;
     const mins = Math.floor(seconds / 60);
@@ -164,6 +252,12 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         >
           Emphasis
         </button>
+        <button
+          style={activeTab === "text" ? activeTabStyle : tabStyle}
+          onClick={() => setActiveTab("text")}
+        >
+          Text
+        </button>
       </div>
 
       {activeTab === "position" && (
@@ -272,7 +366,63 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             ))}
           </div>
           <div style={hintStyle}>
-            Green = emphasized. Click to toggle.
+            Green = emphasized. Click to toggle. Saved toggles are kept when emphasis is re-detected.
+          </div>
+        </div>
+      )}
+
+      {activeTab === "text" && (
+        <div style={contentStyle}>
+          <div style={wordListStyle}>
+            {wordGroups.map((group, idx) => {
+              const span = editSpan(textEdits, group.originalIndex);
+              const edited = textEdits.some((e) => e.index === span.start);
+              return (
+                <span key={`${group.originalIndex}-${group.text}`} style={textWordStyle}>
+                  <input
+                    defaultValue={group.text}
+                    size={Math.max(group.text.length, 2)}
+                    style={{ ...textInputStyle, borderColor: edited ? "#00FF88" : "#444" }}
+                    onBlur={(e) => handleTextCommit(group, e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") e.currentTarget.blur();
+                    }}
+                    title={`Original index: ${group.originalIndex}`}
+                  />
+                  <button
+                    style={mergeButtonStyle}
+                    onClick={() => handleMergeNext(idx)}
+                    title="Merge with the next word"
+                  >
+                    +
+                  </button>
+                </span>
+              );
+            })}
+          </div>
+          {textEdits.length > 0 && (
+            <div style={keyframeListStyle}>
+              {textEdits.map((edit) => (
+                <div key={edit.index} style={textEditItemStyle}>
+                  <span style={keyframeTimeStyle}>
+                    #{edit.index}
+                    {(edit.count ?? 1) > 1 ? `-${edit.index + (edit.count ?? 1) - 1}` : ""}
+                  </span>
+                  <span style={textEditValueStyle}>{edit.text || "(hidden)"}</span>
+                  <button
+                    style={deleteButtonStyle}
+                    onClick={() => handleResetEdit(edit.index)}
+                    title="Undo this edit"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div style={hintStyle}>
+            Edit a word and press Enter. A space splits it, + merges it with the next word, and an empty word hides it.
+            Timings are redistributed when you save.
           </div>
         </div>
       )}
@@ -467,6 +617,49 @@ const wordChipStyle: React.CSSProperties = {
   transition: "all 0.15s",
 };
 
+const textWordStyle: React.CSSProperties = {
+  display: "inline-flex",
+  alignItems: "center",
+  gap: 2,
+};
+
+const textInputStyle: React.CSSProperties = {
+  padding: "5px 6px",
+  backgroundColor: "#222",
+  border: "1px solid #444",
+  borderRadius: 6,
+  color: "#fff",
+  fontSize: 14,
+  fontFamily: "inherit",
+};
+
+const mergeButtonStyle: React.CSSProperties = {
+  padding: "2px 5px",
+  backgroundColor: "#333",
+  border: "none",
+  borderRadius: 4,
+  color: "#888",
+  cursor: "pointer",
+  fontSize: 12,
+};
+
+const textEditItemStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: 10,
+  backgroundColor: "#222",
+  borderRadius: 6,
+  padding: "6px 10px",
+};
+
+const textEditValueStyle: React.CSSProperties = {
+  flex: 1,
+  fontSize: 14,
+  overflow: "hidden",
+  textOverflow: "ellipsis",
+  whiteSpace: "nowrap",
+};
+
 const projectHeaderStyle: React.CSSProperties = {
   display: "flex",
   alignItems: "center",
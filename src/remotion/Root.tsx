@@ -67,6 +67,7 @@ const MainApp: React.FC = () => {
       emphasisIndices={[]}
       showControls={true}
       captionDataJson={captionData ? JSON.stringify(captionData) : ""}
+      onCaptionDataChange={setCaptionData}
       onBackToProjects={handleBackToProjects}
       projectName={currentProject}
     />
@@ -115,6 +116,13 @@ export const RemotionRoot: React.FC = () => {
           ...w,
           isEmphasis: emphasisSet.has(w.originalIndex),
         })),
+        ...(p.lines
+          ? {
+              lines: p.lines.map((line: any[]) =>
+                line.map((w: any) => ({ ...w, isEmphasis: emphasisSet.has(w.originalIndex) }))
+              ),
+            }
+          : {}),
       })),
     };
   }
@@ -127,8 +135,8 @@ export const RemotionRoot: React.FC = () => {
         component={CaptionedVideo as any}
         durationInFrames={durationInFrames}
         fps={fps}
-        width={1080}
-        height={1920}
+        width={legacyCaptionData?.width || 1080}
+        height={legacyCaptionData?.height || 1920}
         defaultProps={{
           videoSrc: inputProps?.videoSrc || "video.mp4",
           position: inputProps?.position || legacyCaptionData?.position || { x: 50, y: 80 },
@@ -2,7 +2,14 @@ import React, { useState, useCallback, useMemo } from "react";
 import { AbsoluteFill, OffthreadVideo, staticFile } from "remotion";
 import { Captions } from "./Captions";
 import { ControlPanel } from "./ControlPanel";
-import { CaptionTimingData, CaptionPosition, PositionKeyframe } from "../types";
+import {
+  CaptionTimingData,
+  CaptionPosition,
+  CaptionWord,
+  EmphasisOverrides,
+  PositionKeyframe,
+  TextEdit,
+} from "../types";
 
 export interface CaptionedVideoProps {
   videoSrc: string;
@@ -10,6 +17,7 @@ export interface CaptionedVideoProps {
   emphasisIndices: number[];
   showControls?: boolean;
   captionDataJson: string;
+  onCaptionDataChange?: (captionData: CaptionTimingData) => void;
   onBackToProjects?: () => void;
   projectName?: string;
 }
@@ -20,6 +28,7 @@ export const CaptionedVideo: React.FC<CaptionedVideoProps> = ({
   emphasisIndices,
   showControls = false,
   captionDataJson,
+  onCaptionDataChange,
   onBackToProjects,
   projectName,
 }) => {
@@ -38,22 +47,38 @@ export const CaptionedVideo: React.FC<CaptionedVideoProps> = ({
   const [keyframes, setKeyframes] = useState<PositionKeyframe[]>(
     baseCaptionData?.positionKeyframes || []
   );
-  const [emphasisToggles, setEmphasisToggles] = useState<Set<number>>(new Set());
+  // Manual emphasis edits (step 4 has already applied the saved ones)
+  const [emphasisOverrides, setEmphasisOverrides] = useState<EmphasisOverrides>(
+    baseCaptionData?.emphasisOverrides || { forcedOn: [], forcedOff: [] }
+  );
+  // Text edits only show up after saving, when step 4 re-times the words
+  const [textEdits, setTextEdits] = useState<TextEdit[]>(baseCaptionData?.textEdits || []);
+
+  // The detector's picks (older timing files only have words with saved overrides applied)
+  const detectedEmphasis = useMemo(
+    () => (baseCaptionData?.detectedEmphasis ? new Set(baseCaptionData.detectedEmphasis) : null),
+    [baseCaptionData]
+  );
 
   // Compute final caption data with all overrides
   // pages is the source of truth - allWords is derived from it
   const captionData = useMemo(() => {
     if (!baseCaptionData) return null;
 
-    // Apply emphasis toggles to pages (source of truth)
+    // Apply emphasis overrides to pages (source of truth)
+    const forcedOn = new Set(emphasisOverrides.forcedOn);
+    const forcedOff = new Set(emphasisOverrides.forcedOff);
+    const applyOverrides = (word: CaptionWord): CaptionWord => {
+      const shouldEmphasize = forcedOff.has(word.originalIndex)
+        ? false
+        : forcedOn.has(word.originalIndex) ||
+          (detectedEmphasis ? detectedEmphasis.has(word.originalIndex) : word.isEmphasis);
+      return { ...word, isEmphasis: shouldEmphasize };
+    };
     const updatedPages = baseCaptionData.pages.map((page) => ({
       ...page,
-      words: page.words.map((word) => {
-        const shouldEmphasize = emphasisToggles.has(word.originalIndex)
-          ? !word.isEmphasis
-          : word.isEmphasis;
-        return { ...word, isEmphasis: shouldEmphasize };
-      }),
+      words: page.words.map(applyOverrides),
+      ...(page.lines ? { lines: page.lines.map((line) => line.map(applyOverrides)) } : {}),
     }));
 
     // Derive allWords from pages for consistency
@@ -65,20 +90,27 @@ export const CaptionedVideo: React.FC<CaptionedVideoProps> = ({
       positionKeyframes: keyframes,
       pages: updatedPages,
       allWords,
+      emphasisOverrides,
     };
-  }, [baseCaptionData, localPosition, keyframes, emphasisToggles]);
+  }, [baseCaptionData, detectedEmphasis, localPosition, keyframes, emphasisOverrides]);
 
+  // Force the word to the opposite of what it shows now, so the edit sticks
+  // even if the detector's picks change on the next run. Toggling a word back
+  // to the detector's pick just drops its override.
   const handleEmphasisToggle = useCallback((wordIndex: number) => {
-    setEmphasisToggles((prev) => {
-      const next = new Set(prev);
-      if (next.has(wordIndex)) {
-        next.delete(wordIndex);
-      } else {
-        next.add(wordIndex);
+    const word = captionData?.allWords.find((w) => w.originalIndex === wordIndex);
+    if (!word) return;
+    const emphasize = !word.isEmphasis;
+
+    setEmphasisOverrides((prev) => {
+      const forcedOn = prev.forcedOn.filter((i) => i !== wordIndex);
+      const forcedOff = prev.forcedOff.filter((i) => i !== wordIndex);
+      if (!detectedEmphasis || detectedEmphasis.has(wordIndex) !== emphasize) {
+        (emphasize ? forcedOn : forcedOff).push(wordIndex);
       }
-      return next;
+      return { forcedOn, forcedOff };
     });
-  }, []);
+  }, [captionData, detectedEmphasis]);
 
   if (!videoSrc || !captionData) {
     return (
@@ -118,9 +150,12 @@ export const CaptionedVideo: React.FC<CaptionedVideoProps> = ({
           captionData={captionData}
           position={localPosition}
           keyframes={keyframes}
+          textEdits={textEdits}
           onPositionChange={setLocalPosition}
           onKeyframesChange={setKeyframes}
           onEmphasisToggle={handleEmphasisToggle}
+          onTextEditsChange={setTextEdits}
+          onCaptionDataReload={onCaptionDataChange}
           onBackToProjects={onBackToProjects}
           projectName={projectName}
         />
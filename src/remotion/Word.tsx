@@ -1,15 +1,60 @@
 import React from "react";
-import { spring, useVideoConfig } from "remotion";
-import { wordStyle, emphasisWordStyle } from "./styles";
-import { CaptionWord } from "../types";
+import { interpolate, spring, useVideoConfig } from "remotion";
+import {
+  captionWordStyle,
+  EmphasisAnimation,
+  getEmphasisTheme,
+  getWordStyle,
+  getEmphasisWordStyle,
+} from "./styles";
+import { CaptionStyleSettings, CaptionWord } from "../types";
 
 interface WordProps {
   word: CaptionWord;
   currentFrame: number;
+  // Non-emphasis text color (varies by speaker)
+  color?: string;
+  // Project caption styles (defaults when not set)
+  styles?: CaptionStyleSettings;
 }
 
-export const Word: React.FC<WordProps> = ({ word, currentFrame }) => {
+// Extra transform for an emphasized word's animation, layered on the pop-in scale
+function getEmphasisMotion(
+  animation: EmphasisAnimation,
+  framesSinceStart: number,
+  fps: number
+): { scale: number; transform: string } {
+  switch (animation) {
+    case "grow": {
+      // Overshoot and settle slightly larger than normal words
+      const grow = spring({ frame: framesSinceStart, fps, config: { damping: 8, stiffness: 150, mass: 0.6 } });
+      return { scale: interpolate(grow, [0, 1], [0.6, 1.1]), transform: "" };
+    }
+    case "pulse": {
+      // Two quick heartbeats that fade out
+      const decay = Math.exp(-framesSinceStart / (fps * 0.4));
+      const beat = Math.abs(Math.sin((framesSinceStart / fps) * Math.PI * 4));
+      return { scale: 1 + 0.12 * beat * decay, transform: "" };
+    }
+    case "bounce": {
+      // Drop in from above
+      const drop = spring({ frame: framesSinceStart, fps, config: { damping: 9, stiffness: 180, mass: 0.6 } });
+      return { scale: 1, transform: `translateY(${interpolate(drop, [0, 1], [-40, 0])}px)` };
+    }
+    case "shake": {
+      // Short side-to-side wobble
+      const decay = Math.exp(-framesSinceStart / (fps * 0.25));
+      const angle = Math.sin((framesSinceStart / fps) * Math.PI * 10) * 6 * decay;
+      return { scale: 1, transform: `rotate(${angle}deg)` };
+    }
+    default:
+      return { scale: 1, transform: "" };
+  }
+}
+
+export const Word: React.FC<WordProps> = ({ word, currentFrame, color, styles }) => {
   const { fps } = useVideoConfig();
+  const wordStyle = getWordStyle(styles);
 
   // Calculate animation progress
   const framesSinceStart = currentFrame - word.startFrame;
@@ -50,13 +95,19 @@ export const Word: React.FC<WordProps> = ({ word, currentFrame }) => {
     },
   });
 
+  // Emphasized words get their category's animation on top of the pop-in
+  const motion = word.isEmphasis
+    ? getEmphasisMotion(getEmphasisTheme(word.emphasisCategory, styles).animation, framesSinceStart, fps)
+    : { scale: 1, transform: "" };
+
   // Apply emphasis styling
   const style: React.CSSProperties = {
-    ...(word.isEmphasis ? emphasisWordStyle : wordStyle),
-    transform: `scale(${scale})`,
+    ...(word.isEmphasis
+      ? getEmphasisWordStyle(styles, word.emphasisCategory)
+      : { ...wordStyle, ...(color ? { color } : {}) }),
+    transform: `scale(${scale * motion.scale}) ${motion.transform}`.trim(),
     opacity,
-    display: "inline-block",
-    marginRight: "0.25em",
+    ...captionWordStyle,
   };
 
   return <span style={style}>{word.word}</span>;
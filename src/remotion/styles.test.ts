@@ -0,0 +1,25 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { CaptionStyleSettings } from "../types.js";
+import { getSpeakerColor, SPEAKER_COLORS } from "./styles.js";
+
+const speakers = ["A", "B", "C", "D", "E"];
+const styles: CaptionStyleSettings = {
+  emphasisColor: "#00FF88",
+  normalColor: "#FFEEDD",
+  fontFamily: "Montserrat, sans-serif",
+  fontSize: 72,
+  fontWeight: 800,
+  textShadow: "none",
+};
+
+test("getSpeakerColor gives the first speaker the project's normalColor", () => {
+  assert.equal(getSpeakerColor("A", speakers, styles), "#FFEEDD");
+  assert.equal(getSpeakerColor("B", speakers, styles), SPEAKER_COLORS[0]);
+});
+
+test("getSpeakerColor cycles back to normalColor after the palette", () => {
+  assert.equal(getSpeakerColor("D", speakers), SPEAKER_COLORS[2]);
+  assert.equal(getSpeakerColor("E", speakers, styles), "#FFEEDD");
+  assert.equal(getSpeakerColor("Z", speakers, styles), "#FFEEDD");
+});
@@ -1,6 +1,8 @@
 import React from "react";
+import { CaptionStyleSettings, EmphasisCategory } from "../types";
 
-// Caption styling (duplicated from config.ts to avoid Node.js dependencies in webpack)
+// Caption styling (duplicated from config.ts to avoid Node.js dependencies in webpack).
+// Project overrides arrive through the timing data's `styles`.
 const CAPTION_STYLES = {
   emphasisColor: "#00FF88",
   normalColor: "#FFFFFF",
@@ -12,6 +14,22 @@ const CAPTION_STYLES = {
   bottomOffset: "20%",
 };
 
+// Caption colors for the second speaker onwards, in order of first appearance.
+// The first speaker uses normalColor, and the emphasis color still wins.
+export const SPEAKER_COLORS = ["#FFD84D", "#5CD6FF", "#FF8FB8"];
+
+export function getSpeakerColor(
+  speaker: string | undefined,
+  speakers: string[] | undefined,
+  styles?: CaptionStyleSettings
+): string {
+  const normalColor = styles?.normalColor || CAPTION_STYLES.normalColor;
+  if (!speaker || !speakers) return normalColor;
+  // Cycle through normalColor and the palette
+  const index = speakers.indexOf(speaker) % (SPEAKER_COLORS.length + 1);
+  return index <= 0 ? normalColor : SPEAKER_COLORS[index - 1];
+}
+
 export const captionContainerStyle: React.CSSProperties = {
   position: "absolute",
   bottom: CAPTION_STYLES.bottomOffset,
@@ -23,32 +41,87 @@ export const captionContainerStyle: React.CSSProperties = {
   padding: "0 40px",
 };
 
-export const captionRowStyle: React.CSSProperties = {
+// Lines come from step 4, so rows never wrap on their own
+export const captionLinesStyle: React.CSSProperties = {
   display: "flex",
-  flexWrap: "wrap",
+  flexDirection: "column",
+  alignItems: "center",
+};
+
+export const captionLineStyle: React.CSSProperties = {
+  display: "flex",
+  flexWrap: "nowrap",
   justifyContent: "center",
   alignItems: "center",
   gap: "8px",
-  maxWidth: "90%",
+  whiteSpace: "nowrap",
 };
 
-export const wordStyle: React.CSSProperties = {
-  fontFamily: CAPTION_STYLES.fontFamily,
-  fontSize: CAPTION_STYLES.fontSize,
-  fontWeight: CAPTION_STYLES.fontWeight,
-  color: CAPTION_STYLES.normalColor,
-  textShadow: CAPTION_STYLES.textShadow,
-  textTransform: "uppercase",
-  letterSpacing: "0.02em",
-  lineHeight: 1.2,
+// Step 4 counts this margin and the row gap when it measures lines
+export const captionWordStyle: React.CSSProperties = {
+  display: "inline-block",
+  marginRight: "0.25em",
 };
 
-export const emphasisWordStyle: React.CSSProperties = {
-  ...wordStyle,
-  color: CAPTION_STYLES.emphasisColor,
-  textShadow: `
-    ${CAPTION_STYLES.textShadow},
-    0 0 20px ${CAPTION_STYLES.emphasisColor}40,
-    0 0 40px ${CAPTION_STYLES.emphasisColor}20
-  `,
+export function getWordStyle(styles?: CaptionStyleSettings): React.CSSProperties {
+  const { fontFamily, fontSize, fontWeight, normalColor, textShadow } = { ...CAPTION_STYLES, ...styles };
+  return {
+    fontFamily,
+    fontSize,
+    fontWeight,
+    color: normalColor,
+    textShadow,
+    textTransform: "uppercase",
+    letterSpacing: "0.02em",
+    lineHeight: 1.2,
+  };
+}
+
+// Pop-in motion of an emphasized word (see Word.tsx)
+export type EmphasisAnimation = "pop" | "grow" | "pulse" | "bounce" | "shake";
+
+export interface EmphasisTheme {
+  color: string;
+  glow: string;
+  animation: EmphasisAnimation;
+}
+
+// Look of each emphasis category. Categories without a color, and uncategorized
+// emphasis, use the project's emphasisColor; uncategorized emphasis uses "pop".
+export const EMPHASIS_THEME: Record<EmphasisCategory, Partial<EmphasisTheme>> = {
+  number: { color: "#FFC700", glow: "#FFB000", animation: "grow" },
+  emotion: { color: "#FF4FD8", glow: "#FF2EC4", animation: "pulse" },
+  "key-noun": { animation: "pop" },
+  action: { color: "#3DA5FF", glow: "#0088FF", animation: "bounce" },
+  warning: { color: "#FF3B30", glow: "#FF0000", animation: "shake" },
 };
+
+export function getEmphasisTheme(
+  category: EmphasisCategory | undefined,
+  styles?: CaptionStyleSettings
+): EmphasisTheme {
+  const emphasisColor = styles?.emphasisColor || CAPTION_STYLES.emphasisColor;
+  const theme = (category && EMPHASIS_THEME[category]) || {};
+  return {
+    color: theme.color || emphasisColor,
+    glow: theme.glow || theme.color || emphasisColor,
+    animation: theme.animation || "pop",
+  };
+}
+
+export function getEmphasisWordStyle(
+  styles?: CaptionStyleSettings,
+  category?: EmphasisCategory
+): React.CSSProperties {
+  const { textShadow } = { ...CAPTION_STYLES, ...styles };
+  const { color, glow } = getEmphasisTheme(category, styles);
+  return {
+    ...getWordStyle(styles),
+    color,
+    textShadow: `
+    ${textShadow},
+    0 0 20px ${glow}40,
+    0 0 40px ${glow}20
+  `,
+  };
+}
@@ -0,0 +1,80 @@
+import fs from "fs";
+import path from "path";
+import { execSync } from "child_process";
+import { config, DIARIZATION_SETTINGS } from "../config.js";
+import { SpeakerTurn, WhisperWord } from "../types.js";
+import { findInputFile, getExtractedAudioPath } from "../lib/input.js";
+import { assignSpeakers, listSpeakers, parseRttm } from "../lib/diarization.js";
+
+function loadSpeakerTurns(inputFile: string): SpeakerTurn[] {
+  if (DIARIZATION_SETTINGS.provider === "rttm") {
+    const rttmPath = findInputFile([".rttm"], "RTTM");
+    return parseRttm(fs.readFileSync(rttmPath, "utf-8"));
+  }
+
+  if (DIARIZATION_SETTINGS.provider === "local") {
+    const audioPath = getExtractedAudioPath(inputFile);
+    if (!fs.existsSync(audioPath)) {
+      throw new Error(`Audio not found at ${audioPath}. Run 01-transcribe.ts first.`);
+    }
+
+    const rttmPath = path.join(config.tempDir, "diarization.rttm");
+    const command = DIARIZATION_SETTINGS.localCommand
+      .replace("{audio}", `"${audioPath}"`)
+      .replace("{output}", `"${rttmPath}"`);
+
+    console.log(`Running local diarization: ${command}`);
+    execSync(command, { stdio: "inherit" });
+    return parseRttm(fs.readFileSync(rttmPath, "utf-8"));
+  }
+
+  throw new Error(
+    `Unknown diarization provider: "${DIARIZATION_SETTINGS.provider}" (expected "rttm" or "local")`
+  );
+}
+
+async function main() {
+  console.log("=== Step 1b: Diarize Speakers ===\n");
+
+  // Read transcription
+  const transcriptionPath = path.join(config.dataDir, "01_transcription.json");
+  if (!fs.existsSync(transcriptionPath)) {
+    throw new Error(
+      `Transcription not found at ${transcriptionPath}. Run 01-transcribe.ts first.`
+    );
+  }
+  const transcriptionData = JSON.parse(fs.readFileSync(transcriptionPath, "utf-8"));
+
+  const turns = loadSpeakerTurns(transcriptionData.inputFile);
+  console.log(`Found ${turns.length} speaker turns`);
+
+  // Label words and save back into the transcription
+  const words: WhisperWord[] = assignSpeakers(
+    transcriptionData.words || [],
+    turns,
+    DIARIZATION_SETTINGS.maxGapSeconds
+  );
+  const speakers = listSpeakers(words);
+
+  transcriptionData.words = words;
+  transcriptionData.speakers = speakers;
+  fs.writeFileSync(transcriptionPath, JSON.stringify(transcriptionData, null, 2));
+  console.log(`Speaker labels saved to: ${transcriptionPath}`);
+
+  // Print summary
+  console.log("\n--- Summary ---");
+  console.log(`Speakers: ${speakers.length}`);
+  for (const speaker of speakers) {
+    const count = words.filter((w) => w.speaker === speaker).length;
+    console.log(`  ${speaker}: ${count} words`);
+  }
+  const unlabeled = words.filter((w) => !w.speaker).length;
+  if (unlabeled > 0) {
+    console.log(`Unlabeled words: ${unlabeled}`);
+  }
+}
+
+main().catch((error) => {
+  console.error("Error:", error);
+  process.exit(1);
+});
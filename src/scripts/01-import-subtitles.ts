@@ -0,0 +1,67 @@
+import fs from "fs";
+import path from "path";
+import { config } from "../config.js";
+import { WhisperTranscription } from "../types.js";
+import { getMediaDuration } from "../lib/audio.js";
+import { findInputFile, findInputVideo } from "../lib/input.js";
+import { PROJECT_GLOSSARY_PATH } from "../lib/glossary.js";
+import { cuesToTranscription, parseSubtitleCues, parseWordJson } from "../lib/subtitles.js";
+
+const SUBTITLE_EXTENSIONS = [".srt", ".vtt", ".json"];
+
+function loadSubtitles(subtitlePath: string, videoDuration: number): WhisperTranscription {
+  const content = fs.readFileSync(subtitlePath, "utf-8");
+  const extension = path.extname(subtitlePath).toLowerCase();
+
+  if (extension === ".json") {
+    console.log("Reading word-level JSON...");
+    return parseWordJson(content, videoDuration);
+  }
+
+  console.log(`Reading ${extension === ".srt" ? "SRT" : "WebVTT"} cues...`);
+  const cues = parseSubtitleCues(content);
+  if (cues.length === 0) {
+    throw new Error(`No subtitle cues found in ${subtitlePath}`);
+  }
+  console.log(`Found ${cues.length} cues, estimating word timings...`);
+
+  return cuesToTranscription(cues, videoDuration || cues[cues.length - 1].end);
+}
+
+async function main() {
+  console.log("=== Step 1 (alternative): Import Subtitles ===\n");
+
+  fs.mkdirSync(config.dataDir, { recursive: true });
+
+  const videoPath = findInputVideo();
+  const videoName = path.basename(videoPath, path.extname(videoPath));
+  const subtitlePath = findInputFile(SUBTITLE_EXTENSIONS, "subtitle", [
+    path.basename(PROJECT_GLOSSARY_PATH),
+  ]);
+
+  const transcription = loadSubtitles(subtitlePath, getMediaDuration(videoPath));
+
+  // Save in the same shape as 01-transcribe.ts so later steps run unchanged
+  const outputPath = path.join(config.dataDir, "01_transcription.json");
+  const outputData = {
+    inputFile: videoPath,
+    videoName,
+    subtitleFile: subtitlePath,
+    ...transcription,
+  };
+
+  fs.writeFileSync(outputPath, JSON.stringify(outputData, null, 2));
+  console.log(`\nTranscription saved to: ${outputPath}`);
+
+  // Print summary
+  console.log("\n--- Summary ---");
+  console.log(`Duration: ${transcription.duration.toFixed(2)}s`);
+  console.log(`Words: ${transcription.words.length}`);
+  console.log(`Segments: ${transcription.segments.length}`);
+  console.log(`\nFull text:\n${transcription.text}`);
+}
+
+main().catch((error) => {
+  console.error("Error:", error);
+  process.exit(1);
+});
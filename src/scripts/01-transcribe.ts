@@ -1,66 +1,80 @@
 import "dotenv/config";
-import OpenAI from "openai";
 import fs from "fs";
 import path from "path";
-import { config } from "../config.js";
+import { config, FFMPEG_SETTINGS } from "../config.js";
 import { WhisperTranscription } from "../types.js";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-async function findInputVideo(): Promise<string> {
-  const files = fs.readdirSync(config.inputDir);
-  const videoFiles = files.filter((f) =>
-    [".mp4", ".mov", ".webm", ".mkv"].includes(path.extname(f).toLowerCase())
-  );
-
-  if (videoFiles.length === 0) {
-    throw new Error(`No video files found in ${config.inputDir}`);
-  }
-
-  // Use the first video file found
-  const inputFile = videoFiles[0];
-  console.log(`Found input video: ${inputFile}`);
-  return path.join(config.inputDir, inputFile);
-}
+import { findInputVideo, getExtractedAudioPath } from "../lib/input.js";
+import { cacheKey, hashFile, isCacheEnabled, readCache, writeCache } from "../lib/cache.js";
+import {
+  applyCorrectionsToText,
+  applyGlossary,
+  buildGlossaryPrompt,
+  Glossary,
+  loadGlossary,
+} from "../lib/glossary.js";
+import { createTranscriber } from "../transcribers/index.js";
+import { transcribeWithChunking } from "../transcribers/chunking.js";
+
+// Bump when transcription options change in a way that should invalidate cached results
+const TRANSCRIPTION_CACHE_VERSION = 1;
 
 async function extractAudio(videoPath: string): Promise<string> {
   const { execSync } = await import("child_process");
-  const audioPath = path.join(
-    config.tempDir,
-    `${path.basename(videoPath, path.extname(videoPath))}.wav`
-  );
+  const audioPath = getExtractedAudioPath(videoPath);
+
+  // Reuse audio from a previous run of the same video. Compare content hashes,
+  // since a replaced video can carry an older mtime (mv, restored archives).
+  const videoHashPath = `${audioPath}.source`;
+  const videoHash = hashFile(videoPath);
+  if (
+    isCacheEnabled() &&
+    fs.existsSync(audioPath) &&
+    fs.existsSync(videoHashPath) &&
+    fs.readFileSync(videoHashPath, "utf-8").trim() === videoHash
+  ) {
+    console.log(`Reusing extracted audio: ${audioPath}`);
+    return audioPath;
+  }
 
   console.log("Extracting audio from video...");
 
   // Extract audio using ffmpeg
   execSync(
-    `ffmpeg -y -i "${videoPath}" -vn -acodec pcm_s16le -ar 16000 -ac 1 "${audioPath}"`,
+    `ffmpeg -y -i "${videoPath}" -vn -acodec ${FFMPEG_SETTINGS.audioCodec} -ar 16000 -ac 1 "${audioPath}"`,
     { stdio: "inherit" }
   );
 
+  fs.writeFileSync(videoHashPath, videoHash);
   console.log(`Audio extracted to: ${audioPath}`);
   return audioPath;
 }
 
 async function transcribeAudio(
-  audioPath: string
+  audioPath: string,
+  glossary: Glossary
 ): Promise<WhisperTranscription> {
-  console.log("Transcribing audio with Whisper...");
-
-  const audioFile = fs.createReadStream(audioPath);
+  const transcriber = createTranscriber();
+  const prompt = buildGlossaryPrompt(glossary);
+
+  const key = cacheKey(
+    hashFile(audioPath),
+    transcriber.name,
+    transcriber.model,
+    prompt,
+    TRANSCRIPTION_CACHE_VERSION
+  );
+  const cached = readCache<WhisperTranscription>("transcription", key);
+  if (cached) {
+    console.log(`Using cached transcription (${key.slice(0, 12)})`);
+    return cached;
+  }
 
-  const response = await openai.audio.transcriptions.create({
-    file: audioFile,
-    model: "whisper-1",
-    response_format: "verbose_json",
-    timestamp_granularities: ["word", "segment"],
-  });
+  const transcription = await transcribeWithChunking(transcriber, audioPath, { prompt });
+  writeCache("transcription", key, transcription);
 
-  console.log(`Transcription complete. Found ${response.words?.length || 0} words.`);
+  console.log(`Transcription complete. Found ${transcription.words?.length || 0} words.`);
 
-  return response as unknown as WhisperTranscription;
+  return transcription;
 }
 
 async function main() {
@@ -71,14 +85,36 @@ async function main() {
   fs.mkdirSync(config.tempDir, { recursive: true });
 
   // Find input video
-  const videoPath = await findInputVideo();
+  const videoPath = findInputVideo();
   const videoName = path.basename(videoPath, path.extname(videoPath));
 
   // Extract audio
   const audioPath = await extractAudio(videoPath);
 
+  // Load glossary (global glossary.json + input/glossary.json)
+  const { glossary, files: glossaryFiles } = loadGlossary();
+  if (glossaryFiles.length > 0) {
+    console.log(`Loaded glossary: ${glossaryFiles.join(", ")}`);
+  }
+
   // Transcribe
-  const transcription = await transcribeAudio(audioPath);
+  const rawTranscription = await transcribeAudio(audioPath, glossary);
+
+  // Apply glossary corrections to words, then to the text and segments
+  const { words, corrections } = applyGlossary(rawTranscription.words || [], glossary);
+  const transcription: WhisperTranscription = applyCorrectionsToText(
+    { ...rawTranscription, words },
+    corrections
+  );
+
+  if (glossaryFiles.length > 0) {
+    const correctionsPath = path.join(config.dataDir, "01_glossary_corrections.json");
+    fs.writeFileSync(
+      correctionsPath,
+      JSON.stringify({ glossaryFiles, corrections }, null, 2)
+    );
+    console.log(`Glossary corrections (${corrections.length}) saved to: ${correctionsPath}`);
+  }
 
   // Save transcription data
   const outputPath = path.join(config.dataDir, "01_transcription.json");
@@ -96,6 +132,12 @@ async function main() {
   console.log(`Duration: ${transcription.duration?.toFixed(2)}s`);
   console.log(`Words: ${transcription.words?.length || 0}`);
   console.log(`Segments: ${transcription.segments?.length || 0}`);
+  if (corrections.length > 0) {
+    console.log(`Glossary corrections: ${corrections.length}`);
+    for (const c of corrections) {
+      console.log(`  "${c.original}" -> "${c.corrected}"`);
+    }
+  }
   console.log(`\nFull text:\n${transcription.text}`);
 }
 
@@ -1,14 +1,41 @@
 import fs from "fs";
 import path from "path";
-import { config, FILLER_PATTERNS, PAUSE_THRESHOLDS } from "../config.js";
+import {
+  config,
+  FILLER_PATTERNS,
+  PAUSE_THRESHOLDS,
+  SILENCE_SETTINGS,
+  TARGET_DURATION_SETTINGS,
+  MOUTH_NOISE_SETTINGS,
+  CUT_SETTINGS,
+} from "../config.js";
 import {
   WhisperTranscription,
+  WhisperWord,
   FillerWord,
   Pause,
   FillerAnalysis,
   CutsData,
   TimeSegment,
+  Repetition,
+  Retake,
+  TargetTrimReport,
+  MouthNoise,
+  VolumeAdjustment,
 } from "../types.js";
+import { detectRepetitions } from "../analysis/repetitions.js";
+import { detectRetakes } from "../analysis/retakes.js";
+import { detectContextualFillers } from "../analysis/contextual-fillers.js";
+import { detectAudioPauses } from "../analysis/silence.js";
+import { planTargetTrim } from "../analysis/target-duration.js";
+import { detectMouthNoises } from "../analysis/mouth-noises.js";
+import { detectSilences, readWav, SilenceInterval } from "../lib/audio.js";
+import { getExtractedAudioPath } from "../lib/input.js";
+import {
+  applySegmentMinimums,
+  padSegment,
+  totalSegmentDuration,
+} from "../lib/segments.js";
 
 function isFillerWord(word: string): boolean {
   const normalized = word.toLowerCase().replace(/[.,!?]/g, "");
@@ -23,13 +50,56 @@ function isFillerWord(word: string): boolean {
   return false;
 }
 
+// Detect silences in the extracted WAV (or the video itself if there is none).
+// Returns null if audio analysis is disabled or ffmpeg fails.
+function detectInputSilences(inputFile: string): SilenceInterval[] | null {
+  if (!SILENCE_SETTINGS.enabled) return null;
+
+  const audioPath = getExtractedAudioPath(inputFile);
+  const source = fs.existsSync(audioPath) ? audioPath : inputFile;
+
+  try {
+    console.log(`Detecting silence in ${path.basename(source)}...`);
+    return detectSilences(
+      source,
+      SILENCE_SETTINGS.noiseDb,
+      SILENCE_SETTINGS.minDurationMs / 1000
+    );
+  } catch (error) {
+    console.warn("Silence detection failed, using word gaps for pauses:", error);
+    return null;
+  }
+}
+
+// Find breaths and clicks inside pauses using the extracted WAV
+function analyzeMouthNoises(inputFile: string, words: WhisperWord[]): MouthNoise[] {
+  if (!MOUTH_NOISE_SETTINGS.enabled) return [];
+
+  const audioPath = getExtractedAudioPath(inputFile);
+  if (!fs.existsSync(audioPath)) {
+    console.warn(`Audio not found at ${audioPath}, skipping breath/click detection`);
+    return [];
+  }
+
+  console.log("Detecting breaths and mouth clicks between words...");
+  const audio = readWav(audioPath);
+  return detectMouthNoises(audio, words);
+}
+
 function analyzeFillers(
-  transcription: WhisperTranscription
+  transcription: WhisperTranscription,
+  silences: SilenceInterval[] | null
 ): { fillerWords: FillerWord[]; pauses: Pause[] } {
   const fillerWords: FillerWord[] = [];
   const pauses: Pause[] = [];
   const words = transcription.words || [];
 
+  // Prefer measured silence over gaps between (loose) word timestamps
+  if (silences) {
+    const durationMs = Math.round((transcription.duration || 0) * 1000);
+    pauses.push(...detectAudioPauses(words, silences, durationMs));
+  }
+
   for (let i = 0; i < words.length; i++) {
     const word = words[i];
     const startMs = Math.round(word.start * 1000);
@@ -42,12 +112,14 @@ function analyzeFillers(
         startMs,
         endMs,
         index: i,
+        wordCount: 1,
+        contextual: false,
         autoRemove: true, // Fillers are auto-remove by default
       });
     }
 
     // Check for pauses between words
-    if (i < words.length - 1) {
+    if (!silences && i < words.length - 1) {
       const nextWord = words[i + 1];
       const gapMs = Math.round((nextWord.start - word.end) * 1000);
 
@@ -57,26 +129,54 @@ function analyzeFillers(
           endMs: Math.round(nextWord.start * 1000),
           durationMs: gapMs,
           afterWordIndex: i,
+          source: "words",
           autoRemove: gapMs >= PAUSE_THRESHOLDS.autoRemoveMs,
         });
       }
     }
   }
 
+  // Add context-dependent fillers ("you know", sentence-initial "so") as suggestions
+  const flaggedIndices = new Set(fillerWords.map((f) => f.index));
+  fillerWords.push(
+    ...detectContextualFillers(words, transcription.segments || [], flaggedIndices)
+  );
+  fillerWords.sort((a, b) => a.index - b.index);
+
   return { fillerWords, pauses };
 }
 
+// Padding configured for a cut reason (no padding for unknown reasons)
+function getCutPadding(kind: string) {
+  return { preRollMs: 0, postRollMs: 0, ...CUT_SETTINGS.padding[kind] };
+}
+
 function generateCutsData(
   inputFile: string,
+  durationMs: number,
   fillerWords: FillerWord[],
-  pauses: Pause[]
+  pauses: Pause[],
+  repetitions: Repetition[],
+  retakes: Retake[],
+  mouthNoises: MouthNoise[]
 ): CutsData {
   const segmentsToRemove: TimeSegment[] = [];
+  const volumeAdjustments: VolumeAdjustment[] = [];
+
+  // Queue a cut, shrunk by the padding configured for its kind
+  const addCut = (kind: string, segment: TimeSegment, edge?: "leading" | "trailing") => {
+    const padding = getCutPadding(kind);
+    // Dead air at the start/end only needs padding on the speech side
+    if (edge === "leading") padding.postRollMs = 0;
+    if (edge === "trailing") padding.preRollMs = 0;
+    const padded = padSegment(segment, padding);
+    if (padded) segmentsToRemove.push(padded);
+  };
 
   // Add filler words that are marked for removal
   for (const filler of fillerWords) {
     if (filler.autoRemove) {
-      segmentsToRemove.push({
+      addCut("filler", {
         startMs: filler.startMs,
         endMs: filler.endMs,
         reason: `filler: "${filler.word}"`,
@@ -84,53 +184,90 @@ function generateCutsData(
     }
   }
 
-  // Add pauses that are marked for removal
+  // Add repeated words and stutters, keeping the final occurrence
+  for (const repetition of repetitions) {
+    if (repetition.autoRemove) {
+      addCut(repetition.kind, {
+        startMs: repetition.startMs,
+        endMs: repetition.endMs,
+        reason: `${repetition.kind}: "${repetition.text}"`,
+      });
+    }
+  }
+
+  // Add accepted retakes (earlier attempt of a restarted phrase)
+  for (const retake of retakes) {
+    if (retake.autoRemove) {
+      addCut("retake", {
+        startMs: retake.startMs,
+        endMs: retake.endMs,
+        reason: `retake: "${retake.text}"`,
+      });
+    }
+  }
+
+  // Add pauses that are marked for removal, keeping a little air around speech
   for (const pause of pauses) {
     if (pause.autoRemove) {
-      // Keep a small gap (200ms) to avoid jarring cuts
-      const keepMs = 200;
-      if (pause.durationMs > keepMs * 2) {
-        segmentsToRemove.push({
-          startMs: pause.startMs + keepMs,
-          endMs: pause.endMs - keepMs,
-          reason: `pause: ${pause.durationMs}ms`,
-        });
-      }
+      addCut(
+        pause.edge ? "silence" : "pause",
+        {
+          startMs: pause.startMs,
+          endMs: pause.endMs,
+          reason: pause.edge
+            ? `${pause.edge} silence: ${pause.durationMs}ms`
+            : `pause: ${pause.durationMs}ms`,
+        },
+        pause.edge
+      );
     }
   }
 
-  // Sort by start time
-  segmentsToRemove.sort((a, b) => a.startMs - b.startMs);
-
-  // Merge overlapping segments
-  const merged: TimeSegment[] = [];
-  for (const seg of segmentsToRemove) {
-    if (merged.length === 0) {
-      merged.push(seg);
-    } else {
-      const last = merged[merged.length - 1];
-      if (seg.startMs <= last.endMs) {
-        // Overlapping, merge them
-        last.endMs = Math.max(last.endMs, seg.endMs);
-        last.reason = `${last.reason}; ${seg.reason}`;
-      } else {
-        merged.push(seg);
-      }
+  // Remove or attenuate breaths and clicks
+  for (const noise of mouthNoises) {
+    const durationMs = noise.endMs - noise.startMs;
+    if (noise.action === "remove") {
+      addCut(noise.kind, {
+        startMs: noise.startMs,
+        endMs: noise.endMs,
+        reason: `${noise.kind}: ${durationMs}ms`,
+      });
+    } else if (noise.action === "attenuate") {
+      volumeAdjustments.push({
+        startMs: noise.startMs,
+        endMs: noise.endMs,
+        gainDb: MOUTH_NOISE_SETTINGS.attenuateDb,
+        reason: `${noise.kind}: ${durationMs}ms`,
+      });
     }
   }
 
-  const totalCutDurationMs = merged.reduce(
-    (sum, seg) => sum + (seg.endMs - seg.startMs),
-    0
-  );
+  // Merge overlapping cuts, absorb slivers and drop cuts too short to matter
+  const merged = applySegmentMinimums(segmentsToRemove, durationMs, CUT_SETTINGS);
+  const totalCutDurationMs = totalSegmentDuration(merged);
 
   return {
     inputFile,
     segmentsToRemove: merged,
     totalCutDurationMs,
+    ...(volumeAdjustments.length > 0 ? { volumeAdjustments } : {}),
   };
 }
 
+// --target <seconds> overrides TARGET_DURATION_SETTINGS.targetSeconds
+function parseTargetSeconds(args: string[]): number | null {
+  const index = args.indexOf("--target");
+  if (index === -1) {
+    return TARGET_DURATION_SETTINGS.targetSeconds;
+  }
+
+  const seconds = Number(args[index + 1]);
+  if (Number.isNaN(seconds) || seconds <= 0) {
+    throw new Error(`Invalid --target value: ${args[index + 1]}`);
+  }
+  return seconds;
+}
+
 async function main() {
   console.log("=== Step 2: Analyze Fillers ===\n");
 
@@ -146,43 +283,137 @@ async function main() {
   const inputFile = transcriptionData.inputFile;
 
   // Analyze fillers and pauses
-  const { fillerWords, pauses } = analyzeFillers(transcriptionData);
+  const silences = detectInputSilences(inputFile);
+  const { fillerWords, pauses } = analyzeFillers(transcriptionData, silences);
+
+  // Detect retakes / false starts
+  const retakes = detectRetakes(transcriptionData.words || [], transcriptionData.segments || []);
+
+  // Detect repeated words and stutters (skipping those already inside a retake)
+  const repetitions = detectRepetitions(transcriptionData.words || []).filter(
+    (r) => !retakes.some((t) => r.index >= t.index && r.index < t.index + t.wordCount)
+  );
+
+  // Detect breaths and mouth clicks between words
+  const mouthNoises = analyzeMouthNoises(inputFile, transcriptionData.words || []);
+
+  // Generate cuts data
+  const originalDurationMs = Math.round((transcriptionData.duration || 0) * 1000);
+  let cutsData = generateCutsData(
+    inputFile,
+    originalDurationMs,
+    fillerWords,
+    pauses,
+    repetitions,
+    retakes,
+    mouthNoises
+  );
+
+  // Trim further to fit a target duration if requested
+  let targetTrim: TargetTrimReport | undefined;
+  const targetSeconds = parseTargetSeconds(process.argv.slice(2));
+  if (targetSeconds !== null) {
+    const plan = planTargetTrim({
+      words: transcriptionData.words || [],
+      segments: transcriptionData.segments || [],
+      pauses,
+      fillerWords,
+      cuts: cutsData.segmentsToRemove,
+      originalDurationMs,
+      targetMs: Math.round(targetSeconds * 1000),
+    });
+    targetTrim = plan.report;
+
+    const merged = applySegmentMinimums(
+      [...cutsData.segmentsToRemove, ...plan.segments],
+      originalDurationMs,
+      CUT_SETTINGS
+    );
+    cutsData = {
+      ...cutsData,
+      segmentsToRemove: merged,
+      totalCutDurationMs: totalSegmentDuration(merged),
+    };
+  }
 
   // Save filler analysis
   const fillerAnalysis: FillerAnalysis = {
     inputFile,
     fillerWords,
     pauses,
+    repetitions,
+    retakes,
     totalFillers: fillerWords.length,
     totalPauses: pauses.length,
+    totalRepetitions: repetitions.length,
+    totalRetakes: retakes.length,
+    mouthNoises,
+    ...(targetTrim ? { targetTrim } : {}),
   };
 
   const fillerPath = path.join(config.dataDir, "02_filler_analysis.json");
   fs.writeFileSync(fillerPath, JSON.stringify(fillerAnalysis, null, 2));
   console.log(`Filler analysis saved to: ${fillerPath}`);
 
-  // Generate cuts data
-  const cutsData = generateCutsData(inputFile, fillerWords, pauses);
   const cutsPath = path.join(config.dataDir, "03_cuts.json");
   fs.writeFileSync(cutsPath, JSON.stringify(cutsData, null, 2));
   console.log(`Cuts data saved to: ${cutsPath}`);
 
   // Print summary
   console.log("\n--- Summary ---");
-  console.log(`Filler words found: ${fillerWords.length}`);
-  if (fillerWords.length > 0) {
+  const contextualFillers = fillerWords.filter((f) => f.contextual);
+  console.log(`Filler words found: ${fillerWords.length - contextualFillers.length}`);
+  if (fillerWords.length > contextualFillers.length) {
     console.log(
-      `  Words: ${fillerWords.map((f) => `"${f.word}"`).join(", ")}`
+      `  Words: ${fillerWords.filter((f) => !f.contextual).map((f) => `"${f.word}"`).join(", ")}`
     );
   }
-  console.log(`Pauses detected: ${pauses.length}`);
+  console.log(`Contextual fillers suggested: ${contextualFillers.length}`);
+  if (contextualFillers.length > 0) {
+    console.log(
+      `  Words: ${contextualFillers.map((f) => `"${f.word}"`).join(", ")}`
+    );
+  }
+  console.log(
+    `Pauses detected: ${pauses.length} (from ${silences ? "audio silence detection" : "word gaps"})`
+  );
   if (pauses.length > 0) {
     console.log(
       `  Durations: ${pauses.map((p) => `${p.durationMs}ms`).join(", ")}`
     );
   }
+  console.log(`Repetitions/stutters detected: ${repetitions.length}`);
+  for (const repetition of repetitions) {
+    console.log(
+      `  ${repetition.autoRemove ? "[cut]" : "[review]"} "${repetition.text}" -> "${repetition.repeatedText}"`
+    );
+  }
+  console.log(`Retakes detected: ${retakes.length}`);
+  for (const retake of retakes) {
+    console.log(
+      `  ${retake.autoRemove ? "[cut]" : "[review]"} "${retake.text}" -> "${retake.retakeText}" (${Math.round(retake.similarity * 100)}%)`
+    );
+  }
+  const breaths = mouthNoises.filter((n) => n.kind === "breath").length;
+  console.log(
+    `Breaths/clicks detected: ${breaths} breaths, ${mouthNoises.length - breaths} clicks`
+  );
   console.log(`\nSegments to remove: ${cutsData.segmentsToRemove.length}`);
   console.log(`Total cut duration: ${(cutsData.totalCutDurationMs / 1000).toFixed(2)}s`);
+  console.log(`Volume adjustments: ${cutsData.volumeAdjustments?.length || 0}`);
+
+  if (targetTrim) {
+    console.log(
+      `\nTarget duration: ${(targetTrim.targetMs / 1000).toFixed(1)}s ` +
+        `(${(targetTrim.durationBeforeMs / 1000).toFixed(1)}s -> ${(targetTrim.durationAfterMs / 1000).toFixed(1)}s)`
+    );
+    for (const choice of targetTrim.choices) {
+      console.log(`  -${(choice.savedMs / 1000).toFixed(2)}s ${choice.reason}`);
+    }
+    if (!targetTrim.reached) {
+      console.log("  WARNING: Ran out of candidates before reaching the target duration");
+    }
+  }
 
   console.log("\n>>> REVIEW: Edit data/02_filler_analysis.json and data/03_cuts.json");
   console.log(">>> Then run: npm run continue");
@@ -1,19 +1,30 @@
 import "dotenv/config";
-import OpenAI from "openai";
 import fs from "fs";
 import path from "path";
-import { config, GPT_SETTINGS } from "../config.js";
-import { EmphasisData, EmphasisWord, CutsData, WhisperWord } from "../types.js";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { config, EMPHASIS_SETTINGS, GPT_SETTINGS, PROSODY_SETTINGS } from "../config.js";
+import {
+  EmphasisCandidate,
+  EmphasisData,
+  EmphasisWord,
+  CutsData,
+  WhisperWord,
+  WordProsody,
+} from "../types.js";
+import { cacheKey, readCache, writeCache } from "../lib/cache.js";
+import { readWav } from "../lib/audio.js";
+import { getExtractedAudioPath } from "../lib/input.js";
+import { createEmphasisDetector } from "../emphasis/index.js";
+import { getEmphasisTarget, splitEmphasisWindows } from "../emphasis/common.js";
+import { blendEmphasis, computeWordProsody } from "../emphasis/prosody.js";
+
+// Bump when the prompt or response handling changes to invalidate cached results
+const EMPHASIS_PROMPT_VERSION = 3;
 
 function getWordsAfterCuts(
   words: WhisperWord[],
   cutsData: CutsData
-): { word: string; index: number }[] {
-  const remainingWords: { word: string; index: number }[] = [];
+): EmphasisCandidate[] {
+  const remainingWords: EmphasisCandidate[] = [];
 
   for (let i = 0; i < words.length; i++) {
     const word = words[i];
@@ -41,139 +52,46 @@ function getWordsAfterCuts(
   return remainingWords;
 }
 
-async function detectEmphasis(
-  words: { word: string; index: number }[]
-): Promise<EmphasisWord[]> {
-  const wordList = words.map((w) => w.word).join(" ");
-  const targetMin = Math.floor(words.length * (GPT_SETTINGS.emphasisMinPercent / 100));
-  const targetMax = Math.ceil(words.length * (GPT_SETTINGS.emphasisMaxPercent / 100));
-
-  const prompt = `Analyze this transcript and identify the most important/impactful words that should be visually emphasized in TikTok-style captions.
-
-Rules:
-- Select ${targetMin}-${targetMax} words (${GPT_SETTINGS.emphasisMinPercent}-${GPT_SETTINGS.emphasisMaxPercent}% of total)
-- Choose words that are:
-  - Key nouns (main subjects, important concepts)
-  - Strong verbs (action words)
-  - Numbers or statistics
-  - Emotionally impactful words
-  - Words the speaker would naturally stress
-- Do NOT emphasize:
-  - Common words (the, a, is, are, etc.)
-  - Conjunctions (and, but, or)
-  - Prepositions (in, on, at)
-  - Pronouns (I, you, we, they) unless crucial for emphasis
-
-Transcript:
-"${wordList}"
-
-Respond with a JSON object containing a "words" array. Each item should have:
-- "word": the exact word from the transcript
-- "position": the 1-based position in the word list
-- "reason": brief explanation (2-5 words)
-
-Example response format:
-{
-  "words": [
-    {"word": "amazing", "position": 5, "reason": "emotional impact"},
-    {"word": "million", "position": 12, "reason": "key statistic"}
-  ]
-}`;
-
-  console.log("Calling GPT-4o for emphasis detection...");
-
-  const response = await openai.chat.completions.create({
-    model: GPT_SETTINGS.model,
-    messages: [
-      {
-        role: "system",
-        content: "You are an expert at identifying impactful words for video captions. Always respond with valid JSON only.",
-      },
-      { role: "user", content: prompt },
-    ],
-    temperature: 0.3,
-    response_format: { type: "json_object" },
-  });
-
-  const content = response.choices[0].message.content || "{}";
-  console.log("GPT response:", content.substring(0, 500));
-
-  let parsed: Record<string, unknown>;
-
-  try {
-    parsed = JSON.parse(content);
-  } catch {
-    console.error("Failed to parse GPT response:", content);
-    return [];
-  }
-
-  // Handle various response formats GPT might return
-  let emphasisList: Array<{ word: string; position: number; reason: string }> = [];
-  if (Array.isArray(parsed)) {
-    emphasisList = parsed;
-  } else if (parsed.words && Array.isArray(parsed.words)) {
-    emphasisList = parsed.words;
-  } else if (parsed.emphasis_words && Array.isArray(parsed.emphasis_words)) {
-    emphasisList = parsed.emphasis_words;
-  } else if (parsed.emphasisWords && Array.isArray(parsed.emphasisWords)) {
-    emphasisList = parsed.emphasisWords;
-  } else {
-    // Try to find any array in the response
-    for (const key of Object.keys(parsed)) {
-      if (Array.isArray(parsed[key])) {
-        emphasisList = parsed[key] as Array<{ word: string; position: number; reason: string }>;
-        console.log(`Found emphasis words under key: "${key}"`);
-        break;
-      }
-    }
+// Measure per-word prosody from the WAV extracted in step 1 (null if it's missing)
+function analyzeProsody(
+  inputFile: string,
+  words: WhisperWord[],
+  candidates: EmphasisCandidate[]
+): WordProsody[] | null {
+  const audioPath = getExtractedAudioPath(inputFile);
+  if (!fs.existsSync(audioPath)) {
+    console.warn(`Audio not found at ${audioPath}, skipping prosody analysis`);
+    return null;
   }
 
-  console.log(`Found ${emphasisList.length} emphasis words from GPT`);
-
-  // Common words that should NOT be emphasized (filter out GPT mistakes)
-  const skipWords = new Set([
-    "a", "an", "the", "is", "are", "was", "were", "be", "been", "being",
-    "have", "has", "had", "do", "does", "did", "will", "would", "could",
-    "should", "may", "might", "must", "shall", "can", "need", "dare",
-    "and", "or", "but", "if", "then", "else", "when", "where", "why",
-    "how", "what", "which", "who", "whom", "whose", "that", "this",
-    "these", "those", "it", "its", "i", "i'm", "you", "your", "he",
-    "she", "we", "they", "me", "him", "her", "us", "them", "my", "our",
-    "in", "on", "at", "to", "for", "of", "with", "by", "from", "up",
-    "down", "out", "off", "over", "under", "again", "further", "once",
-    "here", "there", "all", "each", "few", "more", "most", "other",
-    "some", "such", "no", "nor", "not", "only", "own", "same", "so",
-    "than", "too", "very", "just", "gonna", "gotta", "wanna",
-  ]);
-
-  // Match by word text instead of position (GPT often miscounts)
-  const emphasisWords: EmphasisWord[] = [];
-  const usedIndices = new Set<number>();
-
-  for (const item of emphasisList) {
-    const targetWord = item.word.toLowerCase().replace(/[.,!?]/g, "");
-
-    // Skip common words
-    if (skipWords.has(targetWord)) {
-      continue;
-    }
+  console.log("Measuring loudness, pitch and duration per word...");
+  return computeWordProsody(readWav(audioPath), words, candidates);
+}
 
-    // Find the first matching word that hasn't been used
-    for (const w of words) {
-      const wordText = w.word.toLowerCase().replace(/[.,!?]/g, "");
-      if (wordText === targetWord && !usedIndices.has(w.index)) {
-        usedIndices.add(w.index);
-        emphasisWords.push({
-          word: w.word,
-          index: w.index,
-          reason: item.reason,
-        });
-        break;
-      }
-    }
+async function detectWithDetector(remainingWords: EmphasisCandidate[]): Promise<EmphasisWord[]> {
+  // Detect emphasis words (cached on the word list, detector, server, GPT and window settings)
+  const detector = createEmphasisDetector();
+  console.log(`Emphasis detector: ${detector.name} (${detector.model})`);
+  const key = cacheKey(
+    remainingWords,
+    detector.name,
+    detector.model,
+    detector.baseURL ?? null,
+    GPT_SETTINGS,
+    EMPHASIS_SETTINGS.window,
+    EMPHASIS_PROMPT_VERSION
+  );
+  const cached = readCache<EmphasisWord[]>("emphasis", key);
+  if (cached) {
+    console.log(`Using cached emphasis results (${key.slice(0, 12)})`);
+    return cached;
   }
 
-  console.log(`After filtering: ${emphasisWords.length} emphasis words`);
+  const emphasisWords = await detector.detect(remainingWords);
+  // Don't cache failed responses or heuristic fallbacks, so the next run retries
+  if (emphasisWords.length > 0 && !detector.usedFallback) {
+    writeCache("emphasis", key, emphasisWords);
+  }
   return emphasisWords;
 }
 
@@ -198,8 +116,35 @@ async function main() {
   const remainingWords = getWordsAfterCuts(transcriptionData.words || [], cutsData);
   console.log(`Words remaining after cuts: ${remainingWords.length}`);
 
-  // Detect emphasis words
-  const emphasisWords = await detectEmphasis(remainingWords);
+  // Score stress from the audio when prosody is blended in
+  const blend = Math.min(Math.max(PROSODY_SETTINGS.blend, 0), 1);
+  const prosody =
+    blend > 0
+      ? analyzeProsody(transcriptionData.inputFile, transcriptionData.words || [], remainingWords)
+      : null;
+
+  let emphasisWords: EmphasisWord[] = [];
+  if (prosody && blend >= 1) {
+    // Prosody only: no detector call, the target midpoint from each window
+    for (const window of splitEmphasisWindows(remainingWords)) {
+      const target = getEmphasisTarget(window.core.length);
+      const count = Math.round((target.min + target.max) / 2);
+      emphasisWords.push(...blendEmphasis([], prosody, window.core, 1, count));
+    }
+  } else {
+    const detected = await detectWithDetector(remainingWords);
+    if (prosody) {
+      // Blend per window so each keeps the number of words the detector picked there
+      console.log(`Blending detector picks with prosody (blend ${blend})`);
+      for (const window of splitEmphasisWindows(remainingWords)) {
+        const inWindow = new Set(window.core.map((w) => w.index));
+        const picks = detected.filter((w) => inWindow.has(w.index));
+        emphasisWords.push(...blendEmphasis(picks, prosody, window.core, blend));
+      }
+    } else {
+      emphasisWords = detected;
+    }
+  }
 
   // Save emphasis data
   const emphasisData: EmphasisData = {
@@ -207,6 +152,7 @@ async function main() {
     emphasisWords,
     totalWords: remainingWords.length,
     emphasisPercentage: (emphasisWords.length / remainingWords.length) * 100,
+    ...(prosody ? { prosodyBlend: blend } : {}),
   };
 
   const outputPath = path.join(config.dataDir, "04_emphasis.json");
@@ -219,7 +165,7 @@ async function main() {
   console.log(`Emphasis words: ${emphasisWords.length} (${emphasisData.emphasisPercentage.toFixed(1)}%)`);
   console.log("\nEmphasis words:");
   for (const word of emphasisWords) {
-    console.log(`  "${word.word}" - ${word.reason}`);
+    console.log(`  "${word.word}" - ${word.reason}${word.category ? ` [${word.category}]` : ""}`);
   }
 }
 
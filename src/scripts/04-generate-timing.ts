@@ -1,15 +1,28 @@
 import fs from "fs";
 import path from "path";
-import { config, CAPTION_STYLES } from "../config.js";
+import { config, CAPTION_STYLES, PAGINATION_SETTINGS } from "../config.js";
 import {
   CutsData,
   EmphasisData,
   CaptionTimingData,
   CaptionWord,
   CaptionPage,
+  ManualOverrides,
   TimeSegment,
-  WhisperWord,
 } from "../types.js";
+import { listSpeakers } from "../lib/diarization.js";
+import { snapSegmentsToFrames, totalSegmentDuration } from "../lib/segments.js";
+import { applyTextEdits, EditedWord } from "../lib/text-edits.js";
+import { fitTimingToVideo } from "../lib/audio.js";
+import { getCutVideoPath } from "../lib/input.js";
+import { applyPageTiming, createLineLayout, paginateWords } from "../lib/pagination.js";
+import {
+  OVERRIDES_PATH,
+  overridesFromTiming,
+  readOverrides,
+  resolveEmphasis,
+  writeOverrides,
+} from "../lib/overrides.js";
 
 function adjustTimestamp(
   originalMs: number,
@@ -33,24 +46,28 @@ function msToFrame(ms: number, fps: number): number {
 }
 
 function generateCaptionTiming(
-  words: WhisperWord[],
+  words: EditedWord[],
   cutsData: CutsData,
   emphasisData: EmphasisData,
   fps: number,
-  originalDurationMs: number
+  originalDurationMs: number,
+  overrides: ManualOverrides
 ): CaptionTimingData {
-  const emphasisIndices = new Set(emphasisData.emphasisWords.map((w) => w.index));
+  const emphasisByIndex = new Map(emphasisData.emphasisWords.map((w) => [w.index, w]));
   const captionWords: CaptionWord[] = [];
+  const detectedEmphasis: number[] = [];
+
+  // Same frame-snapped cuts as step 5, so caption frames match the cut video
+  const removedSegments = snapSegmentsToFrames(cutsData.segmentsToRemove, fps, originalDurationMs);
 
-  // Process each word
-  for (let i = 0; i < words.length; i++) {
-    const word = words[i];
+  // Process each word (after text edits)
+  for (const word of words) {
     const originalStartMs = Math.round(word.start * 1000);
     const originalEndMs = Math.round(word.end * 1000);
 
     // Check if this word is cut
     let isCut = false;
-    for (const segment of cutsData.segmentsToRemove) {
+    for (const segment of removedSegments) {
       if (originalStartMs < segment.endMs && originalEndMs > segment.startMs) {
         isCut = true;
         break;
@@ -60,51 +77,81 @@ function generateCaptionTiming(
     if (isCut) continue;
 
     // Adjust timestamps based on cuts
-    const adjustedStartMs = adjustTimestamp(originalStartMs, cutsData.segmentsToRemove);
-    const adjustedEndMs = adjustTimestamp(originalEndMs, cutsData.segmentsToRemove);
-
+    const adjustedStartMs = adjustTimestamp(originalStartMs, removedSegments);
+    const adjustedEndMs = adjustTimestamp(originalEndMs, removedSegments);
+
+    // Manual overrides win over the detector; merged words keep any source word's emphasis
+    const emphasis = word.sourceIndices
+      .map((index) => emphasisByIndex.get(index))
+      .find((e) => e !== undefined);
+    if (emphasis) detectedEmphasis.push(word.originalIndex);
     captionWords.push({
       word: word.word,
-      startMs: adjustedStartMs,
-      endMs: adjustedEndMs,
+      startMs: Math.round(adjustedStartMs),
+      endMs: Math.round(adjustedEndMs),
       startFrame: msToFrame(adjustedStartMs, fps),
       endFrame: msToFrame(adjustedEndMs, fps),
-      isEmphasis: emphasisIndices.has(i),
-      originalIndex: i,
+      isEmphasis: resolveEmphasis(word.originalIndex, !!emphasis, overrides.emphasis),
+      ...(emphasis?.category ? { emphasisCategory: emphasis.category } : {}),
+      originalIndex: word.originalIndex,
+      ...(word.speaker ? { speaker: word.speaker } : {}),
     });
   }
 
-  // Create pages (groups of words)
-  const pages: CaptionPage[] = [];
-  const wordsPerPage = CAPTION_STYLES.wordsPerPage;
-
-  for (let i = 0; i < captionWords.length; i += wordsPerPage) {
-    const pageWords = captionWords.slice(i, i + wordsPerPage);
-    if (pageWords.length > 0) {
-      pages.push({
-        words: pageWords,
-        startFrame: pageWords[0].startFrame,
-        endFrame: pageWords[pageWords.length - 1].endFrame,
-      });
-    }
-  }
+  // Create pages (groups of words) and split each into lines; pages never mix speakers
+  const lineLayout = createLineLayout();
+  console.log(
+    PAGINATION_SETTINGS.strategy === "fixed"
+      ? `Pagination: fixed, ${CAPTION_STYLES.wordsPerPage} words per page`
+      : `Pagination: smart, up to ${lineLayout.description} per page`
+  );
+  const pages: CaptionPage[] = paginateWords(captionWords, lineLayout.layout).map((pageWords) => ({
+    words: pageWords,
+    lines: lineLayout.forceLayout(pageWords),
+    startFrame: pageWords[0].startFrame,
+    endFrame: pageWords[pageWords.length - 1].endFrame,
+    ...(pageWords[0].speaker ? { speaker: pageWords[0].speaker } : {}),
+  }));
 
-  // Calculate final duration after cuts
-  const finalDurationMs = originalDurationMs - cutsData.totalCutDurationMs;
-  const totalFrames = msToFrame(finalDurationMs, fps);
+  const speakers = listSpeakers(captionWords);
+
+  // Calculate final duration after cuts (step 5 replaces this with the cut video's real duration)
+  const totalFrames = msToFrame(originalDurationMs - totalSegmentDuration(removedSegments), fps);
+  const finalDurationMs = Math.round((totalFrames / fps) * 1000);
+
+  // Decide how long each page stays on screen
+  applyPageTiming(pages, fps, totalFrames);
 
   return {
     inputFile: cutsData.inputFile,
     fps,
+    width: config.width,
+    height: config.height,
     totalFrames,
     durationMs: finalDurationMs,
     pages,
     allWords: captionWords,
     // Caption position: x=0-100 (left to right), y=0-100 (top to bottom)
     // Default: centered horizontally (50), near bottom (80)
-    position: { x: 50, y: 80 },
+    position: overrides.position || { x: 50, y: 80 },
     // Position keyframes for animation: [{ frame: 0, x: 50, y: 50 }, { frame: 1800, x: 50, y: 80 }]
-    positionKeyframes: [],
+    positionKeyframes: overrides.positionKeyframes || [],
+    // Per-speaker styling: colors follow this order, positions can be set per speaker label
+    ...(speakers.length > 0
+      ? { speakers, speakerPositions: overrides.speakerPositions || {} }
+      : {}),
+    emphasisOverrides: overrides.emphasis,
+    detectedEmphasis,
+    ...(overrides.text?.length ? { textEdits: overrides.text } : {}),
+    // Caption look from config.ts / project.json (Remotion can't read config.ts)
+    styles: {
+      emphasisColor: CAPTION_STYLES.emphasisColor,
+      normalColor: CAPTION_STYLES.normalColor,
+      fontFamily: CAPTION_STYLES.fontFamily,
+      fontSize: CAPTION_STYLES.fontSize,
+      fontWeight: CAPTION_STYLES.fontWeight,
+      textShadow: CAPTION_STYLES.textShadow,
+    },
   };
 }
 
@@ -125,30 +172,52 @@ async function main() {
 
   const originalDurationMs = Math.round((transcriptionData.duration || 0) * 1000);
 
+  // Read manual overrides. Older projects kept position edits in the timing
+  // data itself, so move those into the overrides file once.
+  const outputPath = path.join(config.dataDir, "05_caption_timing.json");
+  let overrides = readOverrides();
+  if (!overrides) {
+    overrides = { emphasis: { forcedOn: [], forcedOff: [] } };
+    if (fs.existsSync(outputPath)) {
+      try {
+        overrides = overridesFromTiming(JSON.parse(fs.readFileSync(outputPath, "utf-8")));
+      } catch {
+        // Ignore parse errors, use defaults
+      }
+    }
+    if (overrides.position || overrides.positionKeyframes || overrides.speakerPositions) {
+      writeOverrides(overrides);
+      console.log(`Moved existing position edits to ${OVERRIDES_PATH}`);
+    }
+  }
+
+  // Apply transcript text corrections
+  const textEdits = applyTextEdits(transcriptionData.words || [], overrides.text || []);
+  if (textEdits.applied.length > 0) {
+    console.log(`Applied ${textEdits.applied.length} text edits`);
+  }
+  for (const edit of textEdits.skipped) {
+    console.warn(`Skipped text edit at word ${edit.index} (out of range or overlaps another edit)`);
+  }
+
   // Generate caption timing
   const captionTiming = generateCaptionTiming(
-    transcriptionData.words || [],
+    textEdits.words,
     cutsData,
     emphasisData,
     config.fps,
-    originalDurationMs
+    originalDurationMs,
+    overrides
   );
 
-  // Preserve existing position and keyframes if they exist
-  const outputPath = path.join(config.dataDir, "05_caption_timing.json");
-  if (fs.existsSync(outputPath)) {
-    try {
-      const existingData = JSON.parse(fs.readFileSync(outputPath, "utf-8"));
-      if (existingData.position) {
-        captionTiming.position = existingData.position;
-      }
-      if (existingData.positionKeyframes?.length > 0) {
-        captionTiming.positionKeyframes = existingData.positionKeyframes;
-        console.log(`Preserved ${existingData.positionKeyframes.length} existing keyframes`);
-      }
-    } catch {
-      // Ignore parse errors, use defaults
-    }
+  // When the cut video is already up to date (re-running this step after
+  // step 5), use its real length as step 5 would
+  const cutVideoPath = getCutVideoPath(cutsData.inputFile);
+  if (
+    fs.existsSync(cutVideoPath) &&
+    fs.statSync(cutVideoPath).mtimeMs > fs.statSync(cutsPath).mtimeMs
+  ) {
+    fitTimingToVideo(captionTiming, cutVideoPath);
   }
 
   // Save timing data
@@ -166,6 +235,16 @@ async function main() {
   console.log(
     `Emphasis words: ${captionTiming.allWords.filter((w) => w.isEmphasis).length}`
   );
+  const { forcedOn, forcedOff } = overrides.emphasis;
+  if (forcedOn.length > 0 || forcedOff.length > 0) {
+    console.log(`Manual emphasis: ${forcedOn.length} forced on, ${forcedOff.length} forced off`);
+  }
+  if (overrides.positionKeyframes?.length) {
+    console.log(`Position keyframes: ${overrides.positionKeyframes.length}`);
+  }
+  if (captionTiming.speakers) {
+    console.log(`Speakers: ${captionTiming.speakers.join(", ")}`);
+  }
 }
 
 main().catch((error) => {
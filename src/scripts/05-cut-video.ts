@@ -1,14 +1,33 @@
 import fs from "fs";
 import path from "path";
 import { execSync } from "child_process";
-import { config } from "../config.js";
-import { CutsData, CaptionTimingData } from "../types.js";
+import { config, FFMPEG_SETTINGS, MOUTH_NOISE_SETTINGS } from "../config.js";
+import { CutsData, CaptionTimingData, TimeSegment, VolumeAdjustment } from "../types.js";
+import { fitTimingToVideo } from "../lib/audio.js";
+import { getCutVideoPath } from "../lib/input.js";
+import { snapSegmentsToFrames } from "../lib/segments.js";
+
+// Build a volume filter chain that ducks each range, fading in and out of the
+// reduced gain so attenuated breaths don't produce audible steps
+function buildVolumeChain(adjustments: VolumeAdjustment[]): string {
+  const fade = Math.max(MOUTH_NOISE_SETTINGS.fadeMs, 1) / 1000;
+  return adjustments
+    .map((adj) => {
+      const gain = Math.pow(10, adj.gainDb / 20).toFixed(4);
+      const start = adj.startMs / 1000;
+      const end = adj.endMs / 1000;
+      const ramp = `clip(min((t-${start})/${fade},(${end}-t)/${fade}),0,1)`;
+      return `volume='1-(1-${gain})*${ramp}':eval=frame`;
+    })
+    .join(",");
+}
 
 function buildFFmpegFilter(
-  cuts: CutsData,
+  segmentsToRemove: TimeSegment[],
+  adjustments: VolumeAdjustment[],
   durationMs: number
 ): { filter: string; segmentCount: number } {
-  if (cuts.segmentsToRemove.length === 0) {
+  if (segmentsToRemove.length === 0 && adjustments.length === 0) {
     // No cuts needed, just copy
     return { filter: "", segmentCount: 0 };
   }
@@ -17,7 +36,7 @@ function buildFFmpegFilter(
   const segmentsToKeep: { start: number; end: number }[] = [];
   let currentPos = 0;
 
-  for (const cut of cuts.segmentsToRemove) {
+  for (const cut of segmentsToRemove) {
     if (cut.startMs > currentPos) {
       segmentsToKeep.push({
         start: currentPos / 1000,
@@ -43,6 +62,17 @@ function buildFFmpegFilter(
   const filterParts: string[] = [];
   const concatInputs: string[] = [];
 
+  // Apply volume adjustments on the original timeline, then split the
+  // adjusted audio so each kept segment can trim its own copy
+  const audioInputs = segmentsToKeep.map(() => "[0:a]");
+  if (adjustments.length > 0) {
+    const split = segmentsToKeep.map((_, i) => `[as${i}]`);
+    filterParts.push(
+      `[0:a]${buildVolumeChain(adjustments)},asplit=${segmentsToKeep.length}${split.join("")}`
+    );
+    split.forEach((label, i) => (audioInputs[i] = label));
+  }
+
   for (let i = 0; i < segmentsToKeep.length; i++) {
     const seg = segmentsToKeep[i];
     // Trim video and audio
@@ -50,7 +80,7 @@ function buildFFmpegFilter(
       `[0:v]trim=start=${seg.start}:end=${seg.end},setpts=PTS-STARTPTS[v${i}]`
     );
     filterParts.push(
-      `[0:a]atrim=start=${seg.start}:end=${seg.end},asetpts=PTS-STARTPTS[a${i}]`
+      `${audioInputs[i]}atrim=start=${seg.start}:end=${seg.end},asetpts=PTS-STARTPTS[a${i}]`
     );
     concatInputs.push(`[v${i}][a${i}]`);
   }
@@ -83,20 +113,34 @@ async function main() {
   const originalDurationMs = Math.round((transcriptionData.duration || 0) * 1000);
 
   const inputPath = cutsData.inputFile;
-  const videoName = path.basename(inputPath, path.extname(inputPath));
-  const outputPath = path.join(config.tempDir, `${videoName}_cut.mp4`);
+  const outputPath = getCutVideoPath(inputPath);
 
   console.log(`Input: ${inputPath}`);
   console.log(`Segments to remove: ${cutsData.segmentsToRemove.length}`);
   console.log(`Total cut duration: ${(cutsData.totalCutDurationMs / 1000).toFixed(2)}s`);
+  console.log(`Volume adjustments: ${cutsData.volumeAdjustments?.length || 0}`);
 
-  if (cutsData.segmentsToRemove.length === 0) {
+  // Cut on whole frames, exactly as step 4 shifted the captions
+  const segmentsToRemove = snapSegmentsToFrames(
+    cutsData.segmentsToRemove,
+    timingData.fps,
+    originalDurationMs
+  );
+
+  if (
+    segmentsToRemove.length === 0 &&
+    !cutsData.volumeAdjustments?.length
+  ) {
     // No cuts needed, just copy the file
     console.log("\nNo cuts needed, copying original file...");
     fs.copyFileSync(inputPath, outputPath);
   } else {
     // Build and execute FFmpeg command
-    const { filter, segmentCount } = buildFFmpegFilter(cutsData, originalDurationMs);
+    const { filter, segmentCount } = buildFFmpegFilter(
+      segmentsToRemove,
+      cutsData.volumeAdjustments || [],
+      originalDurationMs
+    );
     console.log(`\nKeeping ${segmentCount} segments`);
 
     const ffmpegCmd = [
@@ -106,9 +150,11 @@ async function main() {
       `-filter_complex "${filter}"`,
       `-map "[outv]"`,
       `-map "[outa]"`,
-      "-c:v libx264",
-      "-crf 18",
-      "-preset medium",
+      `-c:v ${FFMPEG_SETTINGS.videoCodec}`,
+      `-crf ${FFMPEG_SETTINGS.crf}`,
+      `-preset ${FFMPEG_SETTINGS.preset}`,
+      // Constant frame rate at the caption fps, even from variable frame rate sources
+      `-r ${timingData.fps}`,
       "-c:a aac",
       "-b:a 192k",
       `"${outputPath}"`,
@@ -123,6 +169,19 @@ async function main() {
   // Verify output
   const stats = fs.statSync(outputPath);
   console.log(`Output file size: ${(stats.size / 1024 / 1024).toFixed(2)} MB`);
+
+  // Size the composition from the real cut video instead of the estimate from step 4
+  const expectedFrames = timingData.totalFrames;
+  const driftFrames = fitTimingToVideo(timingData, outputPath);
+  if (Math.abs(driftFrames) > 1) {
+    console.warn(
+      `Warning: cut video is ${timingData.totalFrames} frames, step 4 expected ${expectedFrames} ` +
+        `(${driftFrames > 0 ? "+" : ""}${driftFrames} frames, ` +
+        `${((driftFrames / timingData.fps) * 1000).toFixed(0)}ms)`
+    );
+  }
+  fs.writeFileSync(timingPath, JSON.stringify(timingData, null, 2));
+  console.log(`Composition length: ${timingData.totalFrames} frames (${(timingData.durationMs / 1000).toFixed(2)}s)`);
 }
 
 main().catch((error) => {
@@ -0,0 +1,40 @@
+import { config } from "../config.js";
+import { pruneCache } from "../lib/cache.js";
+
+// Usage: npm run cache:prune [-- --all | --older-than <days>]
+function parseMaxAgeDays(args: string[]): number | null {
+  if (args.includes("--all")) {
+    return null;
+  }
+
+  const index = args.indexOf("--older-than");
+  if (index !== -1) {
+    const days = Number(args[index + 1]);
+    if (Number.isNaN(days) || days < 0) {
+      throw new Error(`Invalid --older-than value: ${args[index + 1]}`);
+    }
+    return days;
+  }
+
+  // Default: drop entries unused for 30 days
+  return 30;
+}
+
+async function main() {
+  console.log("=== Prune Cache ===\n");
+
+  const maxAgeDays = parseMaxAgeDays(process.argv.slice(2));
+  console.log(
+    maxAgeDays === null
+      ? `Removing all entries from ${config.cacheDir}`
+      : `Removing entries unused for ${maxAgeDays} days from ${config.cacheDir}`
+  );
+
+  const { removed, freedBytes } = pruneCache(maxAgeDays);
+  console.log(`\nRemoved ${removed} entries (${(freedBytes / 1024 / 1024).toFixed(2)} MB)`);
+}
+
+main().catch((error) => {
+  console.error("Error:", error);
+  process.exit(1);
+});
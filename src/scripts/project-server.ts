@@ -2,7 +2,7 @@ import http from "http";
 import fs from "fs";
 import path from "path";
 import { spawn } from "child_process";
-import { config } from "../config.js";
+import { config, PROJECT_CONFIG_PATH } from "../config.js";
 
 const PORT = 3334;
 
@@ -261,6 +261,12 @@ function archiveProject(name: string): { success: boolean; error?: string } {
     }
   }
 
+  // Move the project's settings overrides along with it
+  if (fs.existsSync(PROJECT_CONFIG_PATH)) {
+    fs.copyFileSync(PROJECT_CONFIG_PATH, path.join(archivePath, "project.json"));
+    fs.rmSync(PROJECT_CONFIG_PATH);
+  }
+
   // Clear working directories
   clearDir(config.inputDir);
   clearDir(config.dataDir);
@@ -315,6 +321,14 @@ function loadProject(name: string): { success: boolean; error?: string } {
     }
   }
 
+  // Restore the project's settings overrides (or fall back to the defaults)
+  const archivedConfigPath = path.join(archivePath, "project.json");
+  if (fs.existsSync(archivedConfigPath)) {
+    fs.copyFileSync(archivedConfigPath, PROJECT_CONFIG_PATH);
+  } else if (fs.existsSync(PROJECT_CONFIG_PATH)) {
+    fs.rmSync(PROJECT_CONFIG_PATH);
+  }
+
   // Remove from archive
   fs.rmSync(archivePath, { recursive: true, force: true });
 
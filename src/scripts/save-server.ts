@@ -1,10 +1,39 @@
 import http from "http";
 import fs from "fs";
 import path from "path";
+import { spawn } from "child_process";
 import { config } from "../config.js";
+import { EmphasisData, TextEdit } from "../types.js";
+import {
+  applyEmphasisOverrides,
+  overridesFromTiming,
+  readOverrides,
+  writeOverrides,
+} from "../lib/overrides.js";
 
 const PORT = 3333;
 
+const projectRoot = path.resolve(config.inputDir, "..");
+
+// Re-run step 4 so text edits are re-timed and re-paginated
+function regenerateTiming(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn("npx", ["tsx", "src/scripts/04-generate-timing.ts"], {
+      cwd: projectRoot,
+      stdio: ["ignore", "ignore", "pipe"],
+    });
+
+    let stderr = "";
+    child.stderr.on("data", (data) => {
+      stderr += data.toString();
+    });
+    child.on("close", (code) =>
+      code === 0 ? resolve() : reject(new Error(stderr || `Step 4 exited with code ${code}`))
+    );
+    child.on("error", reject);
+  });
+}
+
 export function startSaveServer() {
   const server = http.createServer((req, res) => {
     // CORS headers
@@ -23,30 +52,75 @@ export function startSaveServer() {
       req.on("data", (chunk) => {
         body += chunk.toString();
       });
-      req.on("end", () => {
+      req.on("end", async () => {
         try {
           const updates = JSON.parse(body);
           const timingPath = path.join(config.dataDir, "05_caption_timing.json");
 
           // Read current data
           const currentData = JSON.parse(fs.readFileSync(timingPath, "utf-8"));
+          const overrides = readOverrides() || overridesFromTiming(currentData);
 
           // Apply updates
           if (updates.positionKeyframes !== undefined) {
             currentData.positionKeyframes = updates.positionKeyframes;
+            overrides.positionKeyframes = updates.positionKeyframes;
           }
           if (updates.position !== undefined) {
             currentData.position = updates.position;
+            overrides.position = updates.position;
           }
+          if (updates.emphasisOverrides !== undefined) {
+            overrides.emphasis = {
+              forcedOn: updates.emphasisOverrides.forcedOn || [],
+              forcedOff: updates.emphasisOverrides.forcedOff || [],
+            };
 
-          // Save back
+            // Forced words are relative to the detector's picks (read from step 3's
+            // output for timing files written before step 4 saved them)
+            const emphasisPath = path.join(config.dataDir, "04_emphasis.json");
+            const detected = new Set<number>(currentData.detectedEmphasis);
+            if (!currentData.detectedEmphasis && fs.existsSync(emphasisPath)) {
+              const emphasisData: EmphasisData = JSON.parse(fs.readFileSync(emphasisPath, "utf-8"));
+              emphasisData.emphasisWords.forEach((w) => detected.add(w.index));
+            }
+            applyEmphasisOverrides(currentData, detected, overrides.emphasis);
+          }
+
+          // Text edits change timing and pages, so they go through step 4
+          let textChanged = false;
+          if (updates.textEdits !== undefined) {
+            const textEdits: TextEdit[] = updates.textEdits;
+            textChanged = JSON.stringify(textEdits) !== JSON.stringify(overrides.text || []);
+            overrides.text = textEdits;
+          }
+
+          // Save back. The overrides file is what step 4 reads on the next run.
+          writeOverrides(overrides);
           fs.writeFileSync(timingPath, JSON.stringify(currentData, null, 2));
 
-          console.log("Saved updates to 05_caption_timing.json");
+          if (textChanged) {
+            console.log(`Re-generating timing with ${overrides.text?.length || 0} text edits...`);
+            await regenerateTiming();
+          }
+
+          console.log("Saved updates to 04_overrides.json and 05_caption_timing.json");
           console.log(`  Keyframes: ${currentData.positionKeyframes?.length || 0}`);
+          console.log(
+            `  Emphasis: ${overrides.emphasis.forcedOn.length} forced on, ${overrides.emphasis.forcedOff.length} forced off`
+          );
+          console.log(`  Text edits: ${overrides.text?.length || 0}`);
 
+          // Send the new timing back when it changed so the preview can reload it
           res.writeHead(200, { "Content-Type": "application/json" });
-          res.end(JSON.stringify({ success: true }));
+          res.end(
+            JSON.stringify({
+              success: true,
+              ...(textChanged
+                ? { captionData: JSON.parse(fs.readFileSync(timingPath, "utf-8")) }
+                : {}),
+            })
+          );
         } catch (error) {
           console.error("Save error:", error);
           res.writeHead(500, { "Content-Type": "application/json" });
@@ -0,0 +1,158 @@
+import fs from "fs";
+import path from "path";
+import { config, TRANSCRIPTION_SETTINGS } from "../config.js";
+import { detectSilences, extractAudioRange, getMediaDuration } from "../lib/audio.js";
+import {
+  TranscribeOptions,
+  Transcriber,
+  WhisperTranscription,
+  WhisperSegment,
+  WhisperWord,
+} from "../types.js";
+
+interface AudioChunk {
+  // Range of audio sent to the transcriber (includes overlap)
+  start: number;
+  end: number;
+  // Range this chunk is responsible for in the stitched output
+  keepStart: number;
+  keepEnd: number;
+}
+
+// Pick split points near every chunkSeconds, preferring the middle of a silence
+function planChunks(audioPath: string, duration: number): AudioChunk[] {
+  const {
+    chunkSeconds,
+    overlapSeconds,
+    silenceSearchSeconds,
+    silenceNoiseDb,
+    silenceMinSeconds,
+  } = TRANSCRIPTION_SETTINGS.chunking;
+
+  const silences = detectSilences(audioPath, silenceNoiseDb, silenceMinSeconds);
+  const splits: number[] = [];
+  let previousSplit = 0;
+
+  while (duration - previousSplit > chunkSeconds) {
+    const target = previousSplit + chunkSeconds;
+
+    // Latest silence midpoint within the search window before the target
+    let split = target;
+    for (const silence of silences) {
+      const midpoint = (silence.start + silence.end) / 2;
+      if (midpoint > target - silenceSearchSeconds && midpoint <= target) {
+        split = midpoint;
+      }
+    }
+
+    splits.push(split);
+    previousSplit = split;
+  }
+
+  const boundaries = [0, ...splits, duration];
+  const chunks: AudioChunk[] = [];
+
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    chunks.push({
+      start: Math.max(0, boundaries[i] - overlapSeconds),
+      end: Math.min(duration, boundaries[i + 1] + overlapSeconds),
+      keepStart: boundaries[i],
+      keepEnd: boundaries[i + 1],
+    });
+  }
+
+  return chunks;
+}
+
+// Words and segments belong to the chunk that contains their midpoint,
+// which deduplicates anything transcribed twice in the overlap
+function isInKeepRange(start: number, end: number, chunk: AudioChunk, isLast: boolean): boolean {
+  const midpoint = (start + end) / 2;
+  return midpoint >= chunk.keepStart && (midpoint < chunk.keepEnd || isLast);
+}
+
+function stitchTranscriptions(
+  chunks: AudioChunk[],
+  results: WhisperTranscription[],
+  duration: number
+): WhisperTranscription {
+  const words: WhisperWord[] = [];
+  const segments: WhisperSegment[] = [];
+
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    const result = results[i];
+    const isLast = i === chunks.length - 1;
+
+    for (const word of result.words || []) {
+      const start = word.start + chunk.start;
+      const end = word.end + chunk.start;
+      if (isInKeepRange(start, end, chunk, isLast)) {
+        words.push({ ...word, start, end });
+      }
+    }
+
+    for (const segment of result.segments || []) {
+      const start = segment.start + chunk.start;
+      const end = segment.end + chunk.start;
+      if (isInKeepRange(start, end, chunk, isLast)) {
+        segments.push({
+          ...segment,
+          id: segments.length,
+          // seek is measured in 10 ms frames
+          seek: segment.seek + Math.round(chunk.start * 100),
+          start,
+          end,
+        });
+      }
+    }
+  }
+
+  return {
+    task: results[0]?.task || "transcribe",
+    language: results[0]?.language || "",
+    duration,
+    text: segments.map((s) => s.text.trim()).join(" "),
+    words,
+    segments,
+  };
+}
+
+// Transcribe audio, splitting it into overlapping chunks if it exceeds the provider's file size limit
+export async function transcribeWithChunking(
+  transcriber: Transcriber,
+  audioPath: string,
+  options: TranscribeOptions = {}
+): Promise<WhisperTranscription> {
+  const fileSize = fs.statSync(audioPath).size;
+
+  if (!transcriber.maxFileBytes || fileSize <= transcriber.maxFileBytes) {
+    return transcriber.transcribe(audioPath, options);
+  }
+
+  const duration = getMediaDuration(audioPath);
+  const chunks = planChunks(audioPath, duration);
+
+  console.log(
+    `Audio is ${(fileSize / 1024 / 1024).toFixed(1)} MB (limit ${(transcriber.maxFileBytes / 1024 / 1024).toFixed(0)} MB), splitting into ${chunks.length} chunks...`
+  );
+
+  const chunkDir = path.join(config.tempDir, "chunks");
+  fs.mkdirSync(chunkDir, { recursive: true });
+
+  const results: WhisperTranscription[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    const chunkPath = path.join(chunkDir, `chunk_${String(i).padStart(3, "0")}.wav`);
+
+    console.log(
+      `\nChunk ${i + 1}/${chunks.length}: ${chunk.start.toFixed(1)}s - ${chunk.end.toFixed(1)}s`
+    );
+    extractAudioRange(audioPath, chunkPath, chunk.start, chunk.end - chunk.start);
+    results.push(await transcriber.transcribe(chunkPath, options));
+  }
+
+  fs.rmSync(chunkDir, { recursive: true, force: true });
+
+  return stitchTranscriptions(chunks, results, duration);
+}
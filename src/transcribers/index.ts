@@ -0,0 +1,16 @@
+import { TRANSCRIPTION_SETTINGS } from "../config.js";
+import { Transcriber } from "../types.js";
+import { OpenAITranscriber } from "./openai.js";
+import { LocalTranscriber } from "./local.js";
+
+// Create the transcriber selected by TRANSCRIPTION_SETTINGS.provider (or TRANSCRIBER env var)
+export function createTranscriber(provider = TRANSCRIPTION_SETTINGS.provider): Transcriber {
+  switch (provider) {
+    case "openai":
+      return new OpenAITranscriber();
+    case "local":
+      return new LocalTranscriber();
+    default:
+      throw new Error(`Unknown transcription provider: "${provider}" (expected "openai" or "local")`);
+  }
+}
@@ -0,0 +1,106 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseFasterWhisperOutput, parseWhisperCppOutput } from "./local.js";
+import { normalizeWords } from "./words.js";
+
+function token(text: string, from: number, to: number) {
+  return { text, offsets: { from, to } };
+}
+
+const segment = (id: number, start: number, end: number, text: string) => ({
+  id,
+  seek: 0,
+  start,
+  end,
+  text,
+  tokens: [],
+  temperature: 0,
+  avg_logprob: 0,
+  compression_ratio: 0,
+  no_speech_prob: 0,
+});
+
+test("parseWhisperCppOutput joins sub-word tokens and attaches punctuation", () => {
+  const { words, segments, text } = parseWhisperCppOutput(
+    {
+      transcription: [
+        {
+          offsets: { from: 0, to: 1200 },
+          text: " Hello, Remotion.",
+          tokens: [
+            token("[_BEG_]", 0, 0),
+            token(" Hello", 0, 400),
+            token(",", 400, 450),
+            token(" Rem", 500, 700),
+            token("otion", 700, 1000),
+            token(" .", 1000, 1050),
+          ],
+        },
+        {
+          offsets: { from: 1300, to: 1800 },
+          text: " Pro- product",
+          tokens: [token("Pro", 1300, 1400), token("-", 1400, 1420), token(" product", 1450, 1800)],
+        },
+      ],
+    },
+    "en"
+  );
+
+  assert.deepEqual(words, [
+    { word: "Hello,", start: 0, end: 0.45 },
+    { word: "Remotion.", start: 0.5, end: 1.05 },
+    { word: "Pro-", start: 1.3, end: 1.42 },
+    { word: "product", start: 1.45, end: 1.8 },
+  ]);
+  assert.deepEqual(segments.map((s) => [s.start, s.end]), [[0, 1.2], [1.3, 1.8]]);
+  assert.equal(text, "Hello, Remotion. Pro- product");
+});
+
+test("parseFasterWhisperOutput trims words and keeps segments without words", () => {
+  const { words, segments, language } = parseFasterWhisperOutput(
+    {
+      text: " Hello, world.",
+      segments: [
+        {
+          ...segment(0, 0, 1, " Hello, world."),
+          words: [
+            { word: " Hello,", start: 0, end: 0.4 },
+            { word: " world", start: 0.5, end: 0.9 },
+            { word: ".", start: 0.9, end: 0.95 },
+          ],
+        },
+      ],
+    },
+    "en"
+  );
+  assert.deepEqual(words, [
+    { word: "Hello,", start: 0, end: 0.4 },
+    { word: "world.", start: 0.5, end: 0.95 },
+  ]);
+  assert.equal("words" in segments[0], false);
+  assert.equal(language, "en");
+});
+
+test("normalizeWords leaves OpenAI-shaped words alone and matches local words without punctuation", () => {
+  const openai = [
+    { word: "Hello", start: 0, end: 0.4 },
+    { word: "world", start: 0.5, end: 0.95 },
+  ];
+  assert.deepEqual(normalizeWords(openai), openai);
+
+  const local = normalizeWords([
+    { word: " Hello,", start: 0, end: 0.4 },
+    { word: " ", start: 0.4, end: 0.5 },
+    { word: " world", start: 0.5, end: 0.9 },
+    { word: "!", start: 0.9, end: 0.95 },
+  ]);
+  const strip = (word: string) => word.replace(/[^\p{L}\p{N}']/gu, "");
+  assert.deepEqual(local.map((w) => ({ ...w, word: strip(w.word) })), openai);
+});
+
+test("normalizeWords attaches punctuation before the first word to that word", () => {
+  assert.deepEqual(
+    normalizeWords([{ word: " \"", start: 0, end: 0.1 }, { word: " hi", start: 0.1, end: 0.3 }]),
+    [{ word: "\"hi", start: 0, end: 0.3 }]
+  );
+});
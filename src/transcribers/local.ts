@@ -0,0 +1,196 @@
+import fs from "fs";
+import path from "path";
+import { execFileSync } from "child_process";
+import { config, TRANSCRIPTION_SETTINGS } from "../config.js";
+import { getMediaDuration } from "../lib/audio.js";
+import {
+  TranscribeOptions,
+  Transcriber,
+  WhisperTranscription,
+  WhisperSegment,
+  WhisperWord,
+} from "../types.js";
+import { normalizeWords } from "./words.js";
+
+// whisper.cpp --output-json-full format
+interface WhisperCppToken {
+  text: string;
+  offsets: { from: number; to: number }; // milliseconds
+  p?: number;
+}
+
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription: {
+    offsets: { from: number; to: number };
+    text: string;
+    tokens?: WhisperCppToken[];
+  }[];
+}
+
+// whisper-ctranslate2 (faster-whisper) JSON format, same shape as openai-whisper
+interface FasterWhisperOutput {
+  text: string;
+  language?: string;
+  segments: (WhisperSegment & { words?: { word: string; start: number; end: number }[] })[];
+}
+
+// Words and segments from whisper.cpp's JSON
+export function parseWhisperCppOutput(
+  output: WhisperCppOutput,
+  language: string
+): Omit<WhisperTranscription, "duration"> {
+  const words: WhisperWord[] = [];
+  const segments: WhisperSegment[] = output.transcription.map((entry, id) => {
+    // Tokens are sub-word pieces; a leading space (or a new segment) starts a new word
+    let isFirstToken = true;
+    for (const token of entry.tokens || []) {
+      if (token.text.startsWith("[_") || token.text.trim() === "") continue;
+
+      const start = token.offsets.from / 1000;
+      const end = token.offsets.to / 1000;
+
+      if (isFirstToken || token.text.startsWith(" ")) {
+        words.push({ word: token.text, start, end });
+      } else {
+        const last = words[words.length - 1];
+        last.word += token.text;
+        last.end = end;
+      }
+      isFirstToken = false;
+    }
+
+    return {
+      id,
+      seek: 0,
+      start: entry.offsets.from / 1000,
+      end: entry.offsets.to / 1000,
+      text: entry.text,
+      tokens: [],
+      temperature: 0,
+      avg_logprob: 0,
+      compression_ratio: 0,
+      no_speech_prob: 0,
+    };
+  });
+
+  return {
+    task: "transcribe",
+    language: output.result?.language || language,
+    text: output.transcription.map((entry) => entry.text).join("").trim(),
+    words: normalizeWords(words),
+    segments,
+  };
+}
+
+// Words and segments from faster-whisper's JSON
+export function parseFasterWhisperOutput(
+  output: FasterWhisperOutput,
+  language: string
+): Omit<WhisperTranscription, "duration"> {
+  const words: WhisperWord[] = output.segments.flatMap((segment) =>
+    (segment.words || []).map((w) => ({
+      word: w.word,
+      start: w.start,
+      end: w.end,
+    }))
+  );
+
+  const segments: WhisperSegment[] = output.segments.map(({ words: _words, ...segment }) => segment);
+
+  return {
+    task: "transcribe",
+    language: output.language || language,
+    text: output.text.trim(),
+    words: normalizeWords(words),
+    segments,
+  };
+}
+
+// Transcribes on CPU with a local whisper.cpp or faster-whisper binary
+export class LocalTranscriber implements Transcriber {
+  name = "local";
+  private settings = TRANSCRIPTION_SETTINGS.local;
+  model = `${this.settings.engine}:${this.settings.model}`;
+
+  async transcribe(
+    audioPath: string,
+    options: TranscribeOptions = {}
+  ): Promise<WhisperTranscription> {
+    const { engine, binary, model } = this.settings;
+    console.log(`Transcribing audio locally with ${engine} (${binary}, model: ${model})...`);
+
+    let transcription: Omit<WhisperTranscription, "duration">;
+    if (engine === "whisper-cpp") {
+      transcription = this.runWhisperCpp(audioPath, options.prompt);
+    } else if (engine === "faster-whisper") {
+      transcription = this.runFasterWhisper(audioPath, options.prompt);
+    } else {
+      throw new Error(`Unknown local whisper engine: "${engine}"`);
+    }
+
+    return {
+      ...transcription,
+      duration: getMediaDuration(audioPath),
+    };
+  }
+
+  private runWhisperCpp(audioPath: string, prompt?: string): Omit<WhisperTranscription, "duration"> {
+    const { binary, model, language, threads } = this.settings;
+    const outputBase = path.join(
+      config.tempDir,
+      `${path.basename(audioPath, path.extname(audioPath))}_whispercpp`
+    );
+
+    execFileSync(
+      binary,
+      [
+        "-m", model,
+        "-f", audioPath,
+        "-l", language,
+        "-t", String(threads),
+        "--output-json-full",
+        "--output-file", outputBase,
+        ...(prompt ? ["--prompt", prompt] : []),
+      ],
+      { stdio: "inherit" }
+    );
+
+    const output: WhisperCppOutput = JSON.parse(
+      fs.readFileSync(`${outputBase}.json`, "utf-8")
+    );
+
+    return parseWhisperCppOutput(output, language);
+  }
+
+  private runFasterWhisper(audioPath: string, prompt?: string): Omit<WhisperTranscription, "duration"> {
+    const { binary, model, language, threads } = this.settings;
+    const outputDir = path.join(config.tempDir, "faster-whisper");
+    fs.mkdirSync(outputDir, { recursive: true });
+
+    execFileSync(
+      binary,
+      [
+        audioPath,
+        "--model", model,
+        "--language", language,
+        "--device", "cpu",
+        "--compute_type", "int8",
+        "--threads", String(threads),
+        "--word_timestamps", "True",
+        "--output_format", "json",
+        "--output_dir", outputDir,
+        ...(prompt ? ["--initial_prompt", prompt] : []),
+      ],
+      { stdio: "inherit" }
+    );
+
+    const outputPath = path.join(
+      outputDir,
+      `${path.basename(audioPath, path.extname(audioPath))}.json`
+    );
+    const output: FasterWhisperOutput = JSON.parse(fs.readFileSync(outputPath, "utf-8"));
+
+    return parseFasterWhisperOutput(output, language);
+  }
+}
@@ -0,0 +1,38 @@
+import OpenAI from "openai";
+import fs from "fs";
+import { TRANSCRIPTION_SETTINGS } from "../config.js";
+import { TranscribeOptions, Transcriber, WhisperTranscription } from "../types.js";
+import { normalizeWords } from "./words.js";
+
+// Transcribes with the OpenAI Whisper API (requires OPENAI_API_KEY)
+export class OpenAITranscriber implements Transcriber {
+  name = "openai";
+  model = TRANSCRIPTION_SETTINGS.openaiModel;
+  // Whisper API upload limit is 25 MB; leave headroom for multipart overhead
+  maxFileBytes = 24 * 1024 * 1024;
+
+  async transcribe(
+    audioPath: string,
+    options: TranscribeOptions = {}
+  ): Promise<WhisperTranscription> {
+    console.log(`Transcribing audio with OpenAI Whisper (${this.model})...`);
+
+    // Created per call so cached reruns don't need an API key
+    const openai = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+
+    const audioFile = fs.createReadStream(audioPath);
+
+    const response = await openai.audio.transcriptions.create({
+      file: audioFile,
+      model: this.model,
+      ...(options.prompt ? { prompt: options.prompt } : {}),
+      response_format: "verbose_json",
+      timestamp_granularities: ["word", "segment"],
+    });
+
+    const transcription = response as unknown as WhisperTranscription;
+    return { ...transcription, words: normalizeWords(transcription.words || []) };
+  }
+}
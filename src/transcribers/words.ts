@@ -0,0 +1,36 @@
+import { WhisperWord } from "../types.js";
+
+const PUNCTUATION_ONLY = /^[^\p{L}\p{N}]+$/u;
+
+// Give every provider's words the same shape: no surrounding spaces, no empty
+// words, and punctuation attached to the word before it ("Hello ," -> "Hello,"),
+// or to the first word when nothing comes before it. OpenAI words come without
+// punctuation, local engines keep it; detectors use it as an extra hint.
+export function normalizeWords(words: WhisperWord[]): WhisperWord[] {
+  const result: WhisperWord[] = [];
+  // Punctuation seen before the first word
+  let leading: WhisperWord | undefined;
+  for (const word of words) {
+    const text = word.word.trim();
+    if (!text) continue;
+
+    const last = result[result.length - 1];
+    if (PUNCTUATION_ONLY.test(text)) {
+      if (last) {
+        last.word += text;
+        last.end = Math.max(last.end, word.end);
+      } else if (leading) {
+        leading.word += text;
+      } else {
+        leading = { ...word, word: text };
+      }
+    } else if (leading) {
+      result.push({ ...word, word: leading.word + text, start: Math.min(leading.start, word.start) });
+      leading = undefined;
+    } else {
+      result.push({ ...word, word: text });
+    }
+  }
+  if (leading) result.push(leading);
+  return result;
+}
@@ -3,6 +3,7 @@ export interface WhisperWord {
   word: string;
   start: number; // seconds
   end: number; // seconds
+  speaker?: string; // Set by the optional diarization step
 }
 
 export interface WhisperSegment {
@@ -27,12 +28,48 @@ export interface WhisperTranscription {
   segments: WhisperSegment[];
 }
 
+// Glossary post-correction applied to transcribed words
+export interface GlossaryCorrection {
+  index: number; // Position in the raw transcriber word array
+  correctedIndex: number; // Position in the corrected word array
+  original: string;
+  corrected: string;
+  startMs: number;
+  endMs: number;
+  rule: string;
+}
+
+export interface TranscribeOptions {
+  // Vocabulary hint passed to the provider (e.g. glossary terms)
+  prompt?: string;
+}
+
+// Transcription provider (OpenAI API, local whisper.cpp, etc.)
+export interface Transcriber {
+  name: string;
+  // Model identifier (part of the transcription cache key)
+  model: string;
+  // Largest audio file the provider accepts (larger files are chunked)
+  maxFileBytes?: number;
+  transcribe(audioPath: string, options?: TranscribeOptions): Promise<WhisperTranscription>;
+}
+
+// Speaker diarization
+export interface SpeakerTurn {
+  speaker: string;
+  start: number; // seconds
+  end: number; // seconds
+}
+
 // Filler analysis types
 export interface FillerWord {
-  word: string;
+  word: string; // Multi-word fillers are joined with spaces ("you know")
   startMs: number;
   endMs: number;
-  index: number; // Position in original word array
+  index: number; // Position in original word array (first word)
+  wordCount: number;
+  // Context-dependent fillers ("so", "like", "you know") are suggestions only
+  contextual: boolean;
   autoRemove: boolean;
 }
 
@@ -40,16 +77,83 @@ export interface Pause {
   startMs: number;
   endMs: number;
   durationMs: number;
-  afterWordIndex: number;
+  afterWordIndex: number; // -1 for leading silence
+  // "audio" pauses come from silence detection, "words" from gaps between word timestamps
+  source: "words" | "audio";
+  // Dead air before the first word or after the last word
+  edge?: "leading" | "trailing";
   autoRemove: boolean;
 }
 
+// Repeated words ("the the", "I I I") and partial-word stutters ("pro- product").
+// The span runs from the removed occurrence to the start of the next one, so only
+// the final occurrence is kept.
+export interface Repetition {
+  text: string; // Removed occurrence (one or more words)
+  repeatedText: string; // Occurrence that follows it
+  startMs: number;
+  endMs: number;
+  index: number; // First removed word in original word array
+  wordCount: number; // Number of removed words
+  kind: "repeat" | "stutter";
+  autoRemove: boolean;
+}
+
+// False starts: an abandoned attempt followed by a near-identical restart.
+// Set autoRemove to accept (cut the earlier attempt) or reject the retake.
+export interface Retake {
+  text: string; // Earlier attempt (cut)
+  retakeText: string; // Matching start of the later attempt (kept)
+  startMs: number;
+  endMs: number; // Start of the later attempt
+  index: number; // First word of the earlier attempt
+  wordCount: number;
+  similarity: number; // 0-1, normalized text similarity
+  autoRemove: boolean;
+}
+
+// Breaths and mouth clicks found inside pauses. "remove" cuts the noise,
+// "attenuate" lowers its volume in 05-cut-video.ts, "keep" leaves it alone.
+export interface MouthNoise {
+  kind: "breath" | "click";
+  startMs: number;
+  endMs: number;
+  peakDb: number; // dBFS
+  afterWordIndex: number;
+  action: "remove" | "attenuate" | "keep";
+}
+
+// Extra cuts chosen to hit a target duration, in the order they were picked
+export interface TargetTrimChoice {
+  kind: "pause" | "contextual-filler" | "sentence";
+  startMs: number;
+  endMs: number;
+  savedMs: number; // Time newly removed by this choice
+  reason: string;
+}
+
+export interface TargetTrimReport {
+  targetMs: number;
+  originalDurationMs: number;
+  durationBeforeMs: number; // After the normal filler/pause cuts
+  durationAfterMs: number;
+  reached: boolean;
+  choices: TargetTrimChoice[];
+}
+
 export interface FillerAnalysis {
   inputFile: string;
   fillerWords: FillerWord[];
   pauses: Pause[];
+  repetitions: Repetition[];
+  retakes: Retake[];
   totalFillers: number;
   totalPauses: number;
+  totalRepetitions: number;
+  totalRetakes: number;
+  mouthNoises: MouthNoise[];
+  // Present when a target duration was requested
+  targetTrim?: TargetTrimReport;
 }
 
 // Cuts data (editable by user)
@@ -59,17 +163,67 @@ export interface TimeSegment {
   reason: string;
 }
 
+// Volume change applied to part of the original audio before cutting
+export interface VolumeAdjustment {
+  startMs: number;
+  endMs: number;
+  gainDb: number; // Negative to attenuate
+  reason: string;
+}
+
 export interface CutsData {
   inputFile: string;
   segmentsToRemove: TimeSegment[];
   totalCutDurationMs: number;
+  // Optional: volume envelope (e.g. attenuated breaths), in original timeline
+  volumeAdjustments?: VolumeAdjustment[];
 }
 
 // Emphasis data
+// Kind of emphasis, mapped to a color/glow/animation theme in the captions
+export type EmphasisCategory = "number" | "emotion" | "key-noun" | "action" | "warning";
+
 export interface EmphasisWord {
   word: string;
   index: number;
   reason: string;
+  // Optional: emphasis kind (defaults to the plain emphasis style)
+  category?: EmphasisCategory;
+  // Optional: 0-1 stress score from the audio (when prosody blending is on)
+  prosodyScore?: number;
+}
+
+// Per-word prosody features measured over the word's Whisper time window
+export interface WordProsody {
+  index: number;
+  loudnessDb: number;
+  // Median pitch of voiced frames (null when unvoiced)
+  pitchHz: number | null;
+  // Duration per character, so long words don't look stressed
+  msPerChar: number;
+  // 0-1 stress score relative to the surrounding words
+  score: number;
+  // Feature that contributed most to the score
+  dominant: "loudness" | "pitch" | "duration";
+}
+
+// Word remaining after cuts, as passed to an emphasis detector
+export interface EmphasisCandidate {
+  word: string;
+  // Index into the transcription's words
+  index: number;
+}
+
+// Emphasis detection backend (OpenAI, local OpenAI-compatible server, heuristic)
+export interface EmphasisDetector {
+  name: string;
+  // Model identifier (part of the emphasis cache key)
+  model: string;
+  // Optional: server the model runs on (part of the emphasis cache key)
+  baseURL?: string;
+  // Set when the last detect() call fell back to another detector (not cached)
+  usedFallback?: boolean;
+  detect(words: EmphasisCandidate[]): Promise<EmphasisWord[]>;
 }
 
 export interface EmphasisData {
@@ -77,6 +231,8 @@ export interface EmphasisData {
   emphasisWords: EmphasisWord[];
   totalWords: number;
   emphasisPercentage: number;
+  // Optional: share of the score that came from prosody (0-1)
+  prosodyBlend?: number;
 }
 
 // Caption timing data
@@ -87,13 +243,19 @@ export interface CaptionWord {
   startFrame: number;
   endFrame: number;
   isEmphasis: boolean;
+  // Optional: emphasis kind from step 3 (only meaningful when isEmphasis)
+  emphasisCategory?: EmphasisCategory;
   originalIndex: number;
+  speaker?: string;
 }
 
 export interface CaptionPage {
   words: CaptionWord[];
+  // Optional: the same words split into lines, top to bottom (older timing files have none)
+  lines?: CaptionWord[][];
   startFrame: number;
   endFrame: number;
+  speaker?: string; // Pages never mix speakers
 }
 
 // Caption position settings (editable in JSON)
@@ -109,9 +271,22 @@ export interface PositionKeyframe {
   y: number;
 }
 
+// Caption look passed from config.ts to the Remotion components
+export interface CaptionStyleSettings {
+  emphasisColor: string;
+  normalColor: string;
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: number;
+  textShadow: string;
+}
+
 export interface CaptionTimingData {
   inputFile: string;
   fps: number;
+  // Optional: output dimensions (defaults to 1080x1920)
+  width?: number;
+  height?: number;
   totalFrames: number;
   durationMs: number;
   pages: CaptionPage[];
@@ -120,6 +295,44 @@ export interface CaptionTimingData {
   position?: CaptionPosition;
   // Optional: position keyframes for animation (overrides static position)
   positionKeyframes?: PositionKeyframe[];
+  // Optional: speaker labels in order of first appearance (used for per-speaker colors)
+  speakers?: string[];
+  // Optional: per-speaker caption position (overrides position and keyframes)
+  speakerPositions?: Record<string, CaptionPosition>;
+  // Optional: caption styles (defaults to the built-in look)
+  styles?: CaptionStyleSettings;
+  // Optional: manual emphasis overrides already applied to the words above
+  emphasisOverrides?: EmphasisOverrides;
+  // Optional: original indices of the words the detector emphasized, before overrides
+  detectedEmphasis?: number[];
+  // Optional: text edits already applied to the words above
+  textEdits?: TextEdit[];
+}
+
+// Manual emphasis edits, by original word index
+export interface EmphasisOverrides {
+  forcedOn: number[];
+  forcedOff: number[];
+}
+
+// Transcript correction: replaces `count` words starting at original index `index`
+export interface TextEdit {
+  index: number;
+  // Optional: how many original words are replaced (default 1; 2 or more merges them)
+  count?: number;
+  // Replacement text; spaces split it into several words, "" hides the words
+  text: string;
+}
+
+// Hand edits kept separate from generated data so re-running steps 3-4 keeps them
+export interface ManualOverrides {
+  emphasis: EmphasisOverrides;
+  // Optional: transcript text corrections, applied before timing
+  text?: TextEdit[];
+  // Optional: the fields below replace the generated values in the caption timing
+  position?: CaptionPosition;
+  positionKeyframes?: PositionKeyframe[];
+  speakerPositions?: Record<string, CaptionPosition>;
 }
 
 // Script config
@@ -128,6 +341,7 @@ export interface PipelineConfig {
   outputDir: string;
   dataDir: string;
   tempDir: string;
+  cacheDir: string;
   fps: number;
   width: number;
   height: number;